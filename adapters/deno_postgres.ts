@@ -0,0 +1,45 @@
+/**
+ * Adapter running queries with deno-postgres (`jsr:@db/postgres`).
+ *
+ * @example
+ * ```ts
+ * import { Client } from "jsr:@db/postgres";
+ * import { sql } from "jsr:@skedia/literal-sql";
+ * import { execute } from "jsr:@skedia/literal-sql/adapters/deno-postgres";
+ *
+ * const client = new Client();
+ * const users = await execute(client, sql<User>`SELECT * FROM users WHERE id = ${1}`);
+ * ```
+ *
+ * @module
+ */
+
+import type { RowOf, SQLQuery } from "../mod.ts";
+
+/**
+ * A deno-postgres `Client`, `PoolClient` or `Transaction`
+ */
+export interface DenoPostgresClient {
+  queryObject(config: { text: string; args: any[] }): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Runs a query with `$N` placeholders and positional arguments, returning
+ * the rows as objects
+ *
+ * @param client - The client or transaction to run the query on
+ * @param query - The query to run
+ * @returns The rows the query returned
+ */
+export async function execute<Q extends SQLQuery>(
+  client: DenoPostgresClient,
+  query: Q,
+): Promise<RowOf<Q>[]> {
+  const { text, values } = query.toDialect("postgres");
+  // PostgreSQL placeholders are numbered, so the values are an array
+  const result = await client.queryObject({
+    text,
+    args: Array.isArray(values) ? values : Object.values(values),
+  });
+  return result.rows;
+}
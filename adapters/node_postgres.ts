@@ -0,0 +1,44 @@
+/**
+ * Adapter running queries with node-postgres (`pg`).
+ *
+ * @example
+ * ```ts
+ * import pg from "pg";
+ * import { sql } from "@skedia/literal-sql";
+ * import { execute } from "@skedia/literal-sql/adapters/node-postgres";
+ *
+ * const pool = new pg.Pool();
+ * const users = await execute(pool, sql<User>`SELECT * FROM users WHERE id = ${1}`);
+ * ```
+ *
+ * @module
+ */
+
+import type { RowOf, SQLQuery } from "../mod.ts";
+
+/**
+ * A node-postgres `Client`, `Pool` or `PoolClient`
+ */
+export interface NodePostgresClient {
+  query(config: { text: string; values: any[] }): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Runs a query with `$N` placeholders and positional values
+ *
+ * @param client - The client, pool or pool client to run the query on
+ * @param query - The query to run
+ * @returns The rows the query returned
+ */
+export async function execute<Q extends SQLQuery>(
+  client: NodePostgresClient,
+  query: Q,
+): Promise<RowOf<Q>[]> {
+  const { text, values } = query.toDialect("postgres");
+  // PostgreSQL placeholders are numbered, so the values are an array
+  const result = await client.query({
+    text,
+    values: Array.isArray(values) ? values : Object.values(values),
+  });
+  return result.rows;
+}
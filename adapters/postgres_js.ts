@@ -0,0 +1,44 @@
+/**
+ * Adapter running queries with postgres.js (`postgres`).
+ *
+ * @example
+ * ```ts
+ * import postgres from "postgres";
+ * import { sql } from "@skedia/literal-sql";
+ * import { execute } from "@skedia/literal-sql/adapters/postgres-js";
+ *
+ * const client = postgres();
+ * const users = await execute(client, sql<User>`SELECT * FROM users WHERE id = ${1}`);
+ * ```
+ *
+ * @module
+ */
+
+import type { RowOf, SQLQuery } from "../mod.ts";
+
+/**
+ * A postgres.js `Sql` instance, or a transaction or reserved connection
+ */
+export interface PostgresJsClient {
+  unsafe(query: string, parameters?: any[]): PromiseLike<any[]>;
+}
+
+/**
+ * Runs a query with `$N` placeholders and positional values. postgres.js
+ * only accepts raw SQL text through `unsafe`, but the values are still
+ * bound as parameters.
+ *
+ * @param client - The postgres.js instance to run the query on
+ * @param query - The query to run
+ * @returns The rows the query returned
+ */
+export async function execute<Q extends SQLQuery>(
+  client: PostgresJsClient,
+  query: Q,
+): Promise<RowOf<Q>[]> {
+  const { text, values } = query.toDialect("postgres");
+  // PostgreSQL placeholders are numbered, so the values are an array
+  const parameters = Array.isArray(values) ? values : Object.values(values);
+  // The result is an array with extra properties, keep just the rows
+  return [...(await client.unsafe(text, parameters))];
+}
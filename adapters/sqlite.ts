@@ -0,0 +1,72 @@
+/**
+ * Adapter running queries with synchronous SQLite drivers that prepare
+ * statements: `node:sqlite`, `bun:sqlite`, `better-sqlite3` and
+ * `jsr:@db/sqlite`. With `bun:sqlite`, open the database with
+ * `strict: true` for named placeholders, as it otherwise only binds keys
+ * written with their prefix, e.g. `:p1`.
+ *
+ * @example
+ * ```ts
+ * import { DatabaseSync } from "node:sqlite";
+ * import { createSql } from "@skedia/literal-sql";
+ * import { execute } from "@skedia/literal-sql/adapters/sqlite";
+ *
+ * const sql = createSql({ dialect: "sqlite" });
+ * const db = new DatabaseSync(":memory:");
+ * const users = await execute(db, sql<User>`SELECT * FROM users WHERE id = ${1}`);
+ * ```
+ *
+ * @module
+ */
+
+import type { RowOf, SQLQuery } from "../mod.ts";
+
+/**
+ * A prepared SQLite statement
+ */
+export interface SQLiteStatement {
+  all(...parameters: any[]): unknown[];
+  run(...parameters: any[]): unknown;
+  /** Whether the statement returns rows, as set by better-sqlite3 */
+  reader?: boolean;
+}
+
+/**
+ * A SQLite database that prepares statements
+ */
+export interface SQLiteDatabase {
+  prepare(text: string): SQLiteStatement;
+}
+
+/**
+ * Runs a query with SQLite placeholders, in the style set by the query's
+ * `sqlitePlaceholders` option. Named parameters are bound as an object and
+ * the others positionally. Statements that don't return rows resolve to an
+ * empty array. Values are bound as encoded for SQLite, e.g. dates as ISO
+ * strings, whatever the dialect of the query.
+ *
+ * @param db - The database to run the query on
+ * @param query - The query to run
+ * @returns The rows the query returned
+ */
+export function execute<Q extends SQLQuery>(
+  db: SQLiteDatabase,
+  query: Q,
+): Promise<RowOf<Q>[]> {
+  try {
+    const { text, values } = query.toDialect("sqlite");
+    const parameters = Array.isArray(values)
+      ? values
+      : Object.keys(values).length > 0
+      ? [values]
+      : [];
+    const statement = db.prepare(text);
+    if (statement.reader === false) {
+      statement.run(...parameters);
+      return Promise.resolve([]);
+    }
+    return Promise.resolve(statement.all(...parameters) as RowOf<Q>[]);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+}
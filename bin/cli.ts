@@ -19,7 +19,7 @@
  * @module cli
  */
 
-import { SQLQuery } from "../mod.ts";
+import { type FormatOptions, parseQueries, SQLQuery } from "../mod.ts";
 import { parseArgs } from "jsr:@std/cli@1.0.13/parse-args";
 
 /**
@@ -30,6 +30,8 @@ export async function buildQuery(argsList: string[]): Promise<SQLQuery> {
     string: [
       "file",
       "query",
+      "name",
+      "param",
       "where",
       "and",
       "or",
@@ -37,12 +39,16 @@ export async function buildQuery(argsList: string[]): Promise<SQLQuery> {
       "left-join",
       "right-join",
       "inner-join",
+      "full-join",
+      "cross-join",
       "group-by",
+      "having",
       "order-by",
       "limit",
       "offset",
     ],
-    boolean: ["help", "no-format"],
+    boolean: ["help", "no-format", "debug"],
+    collect: ["param"],
     alias: {
       f: "file",
       q: "query",
@@ -72,9 +78,29 @@ export async function buildQuery(argsList: string[]): Promise<SQLQuery> {
       baseQuery = args.query;
     }
 
-    // Initialize the SQL query
+    // Initialize the SQL query, or pick a named one
     let query = new SQLQuery();
-    query.parseInitialQuery(baseQuery);
+    if (args.name) {
+      const queries = parseQueries(baseQuery);
+      if (!Object.hasOwn(queries, args.name)) {
+        throw new Error(`No query named "${args.name}"`);
+      }
+      query = queries[args.name];
+    } else {
+      query.parseInitialQuery(baseQuery);
+    }
+
+    // Bind values to the :name placeholders of a named query
+    const params: string[] = [args.param ?? []].flat();
+    for (const assignment of params) {
+      const separator = assignment.indexOf("=");
+      if (separator === -1) {
+        throw new Error(`Invalid parameter "${assignment}", expected NAME=VALUE`);
+      }
+      query = query.bind({
+        [assignment.slice(0, separator)]: assignment.slice(separator + 1),
+      });
+    }
 
     // Apply conditions in the order they were provided on the command line
     for (let i = 0; i < Deno.args.length; i++) {
@@ -100,8 +126,14 @@ export async function buildQuery(argsList: string[]): Promise<SQLQuery> {
         query = appendClause("RIGHT JOIN", Deno.args[++i]);
       } else if (arg === "--inner-join" && i + 1 < Deno.args.length) {
         query = appendClause("INNER JOIN", Deno.args[++i]);
+      } else if (arg === "--full-join" && i + 1 < Deno.args.length) {
+        query = appendClause("FULL JOIN", Deno.args[++i]);
+      } else if (arg === "--cross-join" && i + 1 < Deno.args.length) {
+        query = appendClause("CROSS JOIN", Deno.args[++i]);
       } else if (arg === "--group-by" && i + 1 < Deno.args.length) {
         query = appendClause("GROUP BY", Deno.args[++i]);
+      } else if (arg === "--having" && i + 1 < Deno.args.length) {
+        query = appendClause("HAVING", Deno.args[++i]);
       } else if (arg === "--order-by" && i + 1 < Deno.args.length) {
         query = appendClause("ORDER BY", Deno.args[++i]);
       } else if (arg === "--limit" && i + 1 < Deno.args.length) {
@@ -120,6 +152,35 @@ export async function buildQuery(argsList: string[]): Promise<SQLQuery> {
   }
 }
 
+/**
+ * Reads the layout of the output from the formatting arguments
+ */
+export function formatOptions(argsList: string[]): FormatOptions {
+  const args = parseArgs(argsList, {
+    string: ["keyword-case", "indent"],
+    boolean: ["no-format", "align", "leading-commas"],
+  });
+
+  const keywordCase = args["keyword-case"] ?? "preserve";
+  if (!["preserve", "upper", "lower"].includes(keywordCase)) {
+    throw new Error(
+      `Invalid keyword case "${keywordCase}", expected upper, lower or preserve`,
+    );
+  }
+  const indent = Number(args.indent ?? 2);
+  if (!Number.isInteger(indent) || indent < 0) {
+    throw new Error(`Invalid indent "${args.indent}", expected a number`);
+  }
+
+  return {
+    keywordCase: keywordCase as FormatOptions["keywordCase"],
+    indent,
+    oneLine: args["no-format"],
+    commaPosition: args["leading-commas"] ? "leading" : "trailing",
+    align: args.align,
+  };
+}
+
 function printHelp() {
   console.log(`
 Literal SQL CLI - SQL Query Builder
@@ -130,6 +191,8 @@ USAGE:
 OPTIONS:
   -f, --file FILE       Read base SQL query from FILE
   -q, --query QUERY     Specify SQL query directly
+  --name NAME           Use the query named NAME by a "-- name:" comment
+  --param NAME=VALUE    Bind VALUE to the :NAME placeholders (repeatable)
   --where CONDITION     Add a WHERE clause
   --and CONDITION       Add an AND condition to the WHERE clause
   --or CONDITION        Add an OR condition to the WHERE clause
@@ -137,17 +200,28 @@ OPTIONS:
   --left-join TEXT      Add a LEFT JOIN clause
   --right-join TEXT     Add a RIGHT JOIN clause
   --inner-join TEXT     Add an INNER JOIN clause
+  --full-join TEXT      Add a FULL JOIN clause
+  --cross-join TEXT     Add a CROSS JOIN clause
   --group-by EXPR       Add a GROUP BY clause
+  --having CONDITION    Add a HAVING clause
   --order-by EXPR       Add an ORDER BY clause
   --limit NUMBER        Add a LIMIT clause
   --offset NUMBER       Add an OFFSET clause
-  --no-format           Disable query formatting
+  --no-format           Print the query on a single line
+  --keyword-case CASE   Print keywords in upper or lower case, or as written (preserve)
+  --indent NUMBER       Indent lists and conditions by NUMBER spaces (default 2)
+  --leading-commas      Put commas at the start of list lines
+  --align               Right-align clause keywords
+  --debug               Print the query with its parameters inlined, not for execution
   -h, --help            Show this help message
 
 EXAMPLES:
   # Read query from a file and add conditions
   deno run --allow-read bin/cli.ts --file query.sql --where "active = true" --and "created_at > '2023-01-01'"
 
+  # Pick a named query from a file and bind its parameters
+  deno run --allow-read bin/cli.ts --file queries.sql --name findUser --param id=42
+
   # Build a query from scratch
   deno run --allow-read bin/cli.ts --query "SELECT * FROM users" --where "id > 100" --order-by "created_at DESC" --limit 10
   `);
@@ -160,8 +234,14 @@ async function main() {
   try {
     const query = await buildQuery(Deno.args);
 
-    // Output the query
-    console.log(query.toString());
+    const format = formatOptions(Deno.args);
+
+    // Output the query, with the parameters inlined when debugging
+    if (Deno.args.includes("--debug")) {
+      console.log(query.toDebugString(query.dialect, format));
+      return;
+    }
+    console.log(query.format(format));
 
     // Output parameters if present and not empty
     if (query.parameters.length > 0) {
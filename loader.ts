@@ -0,0 +1,66 @@
+/**
+ * Loads named queries from `.sql` files.
+ *
+ * @example
+ * ```ts
+ * // queries/users.sql:
+ * //   -- name: findUser
+ * //   SELECT * FROM users WHERE id = :id;
+ *
+ * import { loadQueries } from "@skedia/literal-sql/loader";
+ *
+ * const queries = await loadQueries("queries");
+ * const query = queries.findUser.bind({ id: 42 }).sql`AND active = ${true}`;
+ * ```
+ *
+ * @module
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  parseQueries,
+  type SQLQuery,
+  SQLQueryError,
+  type SQLQueryOptions,
+} from "./mod.ts";
+
+/**
+ * Loads the queries of a `.sql` file, or of every `.sql` file in a
+ * directory. Queries are named by `-- name:` comments, and SQL before the
+ * first of them, such as a whole file without any, is named after the file.
+ * See `parseQueries` for the placeholders.
+ *
+ * @param path - The file or directory to load
+ * @param options - Options for the queries
+ * @returns The queries by name
+ * @throws {SQLQueryError} If a name is used twice, also across files
+ */
+export async function loadQueries(
+  path: string | URL,
+  options: SQLQueryOptions = {},
+): Promise<Record<string, SQLQuery>> {
+  const root = path instanceof URL ? fileURLToPath(path) : path;
+  const files = (await stat(root)).isDirectory()
+    ? (await readdir(root))
+      .filter((file) => extname(file) === ".sql")
+      .sort()
+      .map((file) => join(root, file))
+    : [root];
+
+  const queries: Record<string, SQLQuery> = {};
+  for (const file of files) {
+    const text = await readFile(file, "utf8");
+    const loaded = parseQueries(text, options, basename(file, extname(file)));
+    for (const [name, query] of Object.entries(loaded)) {
+      if (Object.hasOwn(queries, name)) {
+        throw new SQLQueryError(
+          `Query "${name}" is defined more than once, again in ${file}`,
+        );
+      }
+      queries[name] = query;
+    }
+  }
+  return queries;
+}
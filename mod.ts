@@ -29,22 +29,693 @@
  */
 
 interface QueryParts {
+  /** Statement type */
+  type: "select" | "insert" | "update" | "delete";
+  /** Common table expressions, each as `name AS (query)` */
+  with: string[];
+  /** Whether the WITH clause is WITH RECURSIVE */
+  withRecursive: boolean;
+  /** INSERT INTO target, including its column list */
+  insertInto: string | null;
+  /** INSERT VALUES rows */
+  values: string[];
+  /** INSERT ON CONFLICT clause, including its action */
+  onConflict: string | null;
+  /** UPDATE target table */
+  update: string | null;
+  /** UPDATE SET assignments */
+  set: string[];
+  /** DELETE USING tables */
+  using: string | null;
+  /** RETURNING expressions */
+  returning: string[];
   /** SELECT fields */
   select: string[];
   /** FROM table name */
   from: string | null;
   /** JOIN clauses */
-  joins: string[];
+  joins: JoinPart[];
   /** WHERE conditions */
   where: string[];
   /** GROUP BY expressions */
   groupBy: string[];
+  /** HAVING conditions */
+  having: string[];
+  /** Queries combined with this one by set operators, in order */
+  compound: { operator: SetOperator; query: string }[];
   /** ORDER BY expressions */
   orderBy: string[];
   /** LIMIT value */
   limit: string | null;
   /** OFFSET value */
   offset: string | null;
+  /** Row locking clause after FOR, e.g. `UPDATE SKIP LOCKED` */
+  lock: string | null;
+  /** Verbatim text of a query that is not a full statement (e.g. a reusable condition) */
+  fragment: string | null;
+}
+
+/**
+ * A JOIN clause of a query
+ */
+interface JoinPart {
+  /** The join type, e.g. "LEFT JOIN" */
+  type: string;
+  /** The joined table, function or subquery, without its alias */
+  table: string;
+  /** The alias of the joined table, if any */
+  alias: string | null;
+  /** The ON or USING condition, if any */
+  condition: string | null;
+  /** The whole clause as written, which is what gets rendered */
+  text: string;
+}
+
+/**
+ * SQL dialects, which decide the placeholder style of the rendered query:
+ * `$1` (postgres), `?` (mysql, sqlite), `@p1` (mssql) and `:1` (oracle)
+ */
+export type Dialect = "postgres" | "mysql" | "sqlite" | "mssql" | "oracle";
+
+/**
+ * Every dialect, e.g. to encode a value for each of them
+ * @private
+ */
+const DIALECTS: Dialect[] = ["postgres", "mysql", "sqlite", "mssql", "oracle"];
+
+/**
+ * Options controlling how an SQLQuery is built and rendered
+ */
+export interface SQLQueryOptions {
+  /** Dialect used by `toString()` and `parameters` (defaults to "postgres") */
+  dialect?: Dialect;
+  /** SQLite placeholder style: `?` (anonymous, default), `?1` (numbered) or `:p1` (named) */
+  sqlitePlaceholders?: "anonymous" | "numbered" | "named";
+  /** Whether arrays expand to one parameter per item (default) or bind as a single parameter, e.g. for `= ANY($1)` */
+  arrayParameters?: "expand" | "bind";
+  /** How expanded empty arrays are rendered: `NULL` (default, which makes `NOT IN` match no rows either), a subquery without rows (`IN` is false, `NOT IN` true) or by throwing an SQLQueryError */
+  emptyArrays?: "null" | "false" | "throw";
+  /** Whether raw fragments with quotes, semicolons or comments throw unless created with `allowUnsafe` */
+  strictRaw?: boolean;
+  /** How `undefined` values are handled: rendered as `NULL` (default), by throwing an SQLQueryError, or by skipping the fragment they are in */
+  undefinedValues?: "null" | "throw" | "skip";
+  /** Encoders for parameter values, tried before the registered and built-in ones */
+  encoders?: ValueEncoder[];
+  /** Whether problems reported by `validate()` throw an SQLQueryError as soon as the query is built */
+  strict?: boolean;
+}
+
+/**
+ * A parameter value as bound to the query
+ */
+export interface EncodedValue {
+  /** The value passed to the database driver */
+  value: any;
+  /** An SQL type to cast the placeholder to, e.g. "jsonb" for `$1::jsonb` */
+  cast?: string;
+}
+
+/**
+ * Converts parameter values of some type to what the database driver
+ * expects. The cast, if any, is inserted into the query as is.
+ *
+ * @example
+ * ```ts
+ * SQLQuery.registerEncoder({
+ *   test: (value) => value instanceof Money,
+ *   encode: (value: Money) => ({ value: value.cents, cast: "bigint" }),
+ * });
+ * ```
+ */
+export interface ValueEncoder {
+  /** Whether the encoder handles the value */
+  test: (value: any) => boolean;
+  /** Encodes the value for a dialect, called for each one the query may be rendered in */
+  encode: (value: any, dialect: Dialect) => EncodedValue;
+}
+
+/**
+ * The encoders used when no other encoder handles a value
+ * @private
+ */
+const BUILTIN_ENCODERS: ValueEncoder[] = [
+  {
+    // Dates are bound as they are, except for SQLite which has no date type
+    test: (value) => value instanceof Date,
+    encode: (value: Date, dialect) => {
+      if (Number.isNaN(value.getTime())) {
+        throw new SQLQueryError("Cannot bind an invalid date");
+      }
+      return { value: dialect === "sqlite" ? value.toISOString() : value };
+    },
+  },
+  {
+    // SQLite has no boolean type, its drivers only bind 1 and 0
+    test: (value) => typeof value === "boolean",
+    encode: (value: boolean, dialect) => ({
+      value: dialect === "sqlite" ? Number(value) : value,
+    }),
+  },
+  {
+    // SQLite drivers bind bigints as integers, other drivers don't all bind
+    // them but the server casts their digits to the column's numeric type
+    test: (value) => typeof value === "bigint",
+    encode: (value: bigint, dialect) => ({
+      value: dialect === "sqlite" ? value : value.toString(),
+    }),
+  },
+  {
+    // Binary data, including Node.js buffers
+    test: (value) => value instanceof Uint8Array,
+    encode: (value: Uint8Array) => ({ value }),
+  },
+  {
+    // Plain objects are JSON documents
+    test: (value) =>
+      value !== null &&
+      typeof value === "object" &&
+      [Object.prototype, null].includes(Object.getPrototypeOf(value)),
+    encode: (value, dialect) => ({
+      value: JSON.stringify(value),
+      cast: { postgres: "jsonb", mysql: "json" }[dialect as string],
+    }),
+  },
+];
+
+/**
+ * Error thrown when a query cannot be built
+ */
+export class SQLQueryError extends Error {
+  /**
+   * Creates a new SQLQueryError
+   *
+   * @param message - Description of the problem
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "SQLQueryError";
+  }
+}
+
+/**
+ * A query rendered for a specific database driver
+ */
+export interface RenderedQuery {
+  /** The SQL text using the dialect's placeholders */
+  text: string;
+  /** The parameters, as an array for positional placeholders or keyed by name for named ones */
+  values: any[] | Record<string, any>;
+}
+
+/**
+ * A problem found in a query by `SQLQuery.validate()`
+ */
+export interface Diagnostic {
+  /** What kind of problem it is */
+  code:
+    | "invalid-limit"
+    | "invalid-offset"
+    | "clause-before-statement"
+    | "unbalanced-parentheses"
+    | "leading-or"
+    | "missing-parameter"
+    | "unbound-parameter";
+  /** Description of the problem */
+  message: string;
+  /** The keyword of the clause with the problem, e.g. "WHERE" */
+  clause?: string;
+  /** The SQL text with the problem */
+  fragment?: string;
+}
+
+/**
+ * Options for laying out a query, see `SQLQuery.format()`
+ */
+export interface FormatOptions {
+  /** Case of SQL keywords: as written (default), upper or lower case */
+  keywordCase?: "preserve" | "upper" | "lower";
+  /** Number of spaces list items and conditions are indented by (defaults to 2) */
+  indent?: number;
+  /** Whether the query is rendered on a single line, ignoring the other layout options */
+  oneLine?: boolean;
+  /** Whether commas of lists with an item per line trail (default) or lead the items */
+  commaPosition?: "trailing" | "leading";
+  /** Whether clause keywords are right-aligned, with clause bodies and conditions lined up after them */
+  align?: boolean;
+}
+
+/**
+ * Operators combining the results of two queries
+ */
+type SetOperator =
+  | "UNION"
+  | "UNION ALL"
+  | "INTERSECT"
+  | "INTERSECT ALL"
+  | "EXCEPT"
+  | "EXCEPT ALL";
+
+/**
+ * Keywords of the set operators, as matched by the clause splitter
+ * @private
+ */
+const SET_OPERATORS = [
+  "union all",
+  "union",
+  "intersect all",
+  "intersect",
+  "except all",
+  "except",
+];
+
+/**
+ * Keywords of the JOIN clauses. LATERAL, ON and USING are part of the clause.
+ * @private
+ */
+const JOIN_KEYWORDS = [
+  "join",
+  "inner join",
+  "left join",
+  "left outer join",
+  "right join",
+  "right outer join",
+  "full join",
+  "full outer join",
+  "cross join",
+  "natural join",
+  "natural inner join",
+  "natural left join",
+  "natural left outer join",
+  "natural right join",
+  "natural right outer join",
+  "natural full join",
+  "natural full outer join",
+];
+
+/**
+ * Keywords of the row locking clauses, which come last in a SELECT
+ * @private
+ */
+const LOCK_KEYWORDS = [
+  "for update",
+  "for no key update",
+  "for share",
+  "for key share",
+];
+
+/**
+ * Keywords of the clauses of each statement type, as matched by the clause
+ * splitter
+ * @private
+ */
+const CLAUSE_KEYWORDS: Record<QueryParts["type"], string[]> = {
+  select: [
+    "select",
+    "from",
+    ...JOIN_KEYWORDS,
+    "where",
+    "group by",
+    "having",
+    "order by",
+    "limit",
+    "offset",
+    ...LOCK_KEYWORDS,
+  ],
+  insert: [
+    "insert into",
+    "values",
+    "select",
+    "from",
+    ...JOIN_KEYWORDS,
+    "where",
+    "group by",
+    "having",
+    "order by",
+    "limit",
+    "offset",
+    "on conflict",
+    "returning",
+  ],
+  update: ["update", "set", "from", ...JOIN_KEYWORDS, "where", "returning"],
+  delete: ["delete from", "using", "where", "returning"],
+};
+
+/**
+ * A parameter with a name, which shares a single placeholder wherever the
+ * name is used and can be rebound with `SQLQuery.bind()`
+ */
+export class NamedParameter {
+  /** The parameter name */
+  name: string;
+  /** The parameter value */
+  value: any;
+
+  /**
+   * Creates a new NamedParameter
+   *
+   * @param name - The parameter name, a valid SQL identifier
+   * @param value - The parameter value
+   */
+  constructor(name: string, value: any) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new SQLQueryError(`Invalid parameter name "${name}"`);
+    }
+    this.name = name;
+    this.value = value;
+  }
+}
+
+/**
+ * Creates a named parameter. Every use of the same name within a query,
+ * including nested fragments, shares one placeholder.
+ *
+ * @example
+ * ```ts
+ * const tenant = (id: number) => sql`tenant_id = ${param("tenantId", id)}`;
+ *
+ * const query = sql`SELECT * FROM projects WHERE ${tenant(1)}`
+ *   .sql`AND owner_id IN (SELECT id FROM users WHERE ${tenant(1)})`;
+ * // Both conditions use $1
+ *
+ * query.bind({ tenantId: 2 }).parameters; // [2]
+ * ```
+ *
+ * @param name - The parameter name, a valid SQL identifier
+ * @param value - The parameter value, bound as-is (arrays are not expanded)
+ * @returns The named parameter, to be interpolated into a query
+ */
+export function param(name: string, value: any): NamedParameter {
+  return new NamedParameter(name, value);
+}
+
+/**
+ * An SQL identifier, such as a table or column name, interpolated as quoted
+ * text rather than as a parameter
+ */
+export class Identifier {
+  /** The name parts, e.g. `["public", "users"]` for `public.users` */
+  parts: string[];
+
+  /**
+   * Creates a new Identifier
+   *
+   * @param parts - The name parts, outermost first
+   */
+  constructor(parts: string[]) {
+    if (
+      parts.length === 0 ||
+      parts.some((part) => !part || part.includes("\0"))
+    ) {
+      throw new SQLQueryError(`Invalid identifier "${parts.join(".")}"`);
+    }
+    this.parts = parts;
+  }
+
+  /**
+   * Quotes the identifier for a dialect: `"name"` for PostgreSQL, SQLite and
+   * Oracle, `` `name` `` for MySQL and `[name]` for SQL Server
+   *
+   * @param dialect - The dialect to quote for
+   * @returns The quoted, dot-separated identifier
+   */
+  quote(dialect: Dialect = "postgres"): string {
+    return this.parts
+      .map((part) => {
+        if (dialect === "mysql") {
+          return `\`${part.replaceAll("`", "``")}\``;
+        }
+        if (dialect === "mssql") {
+          return `[${part.replaceAll("]", "]]")}]`;
+        }
+        return `"${part.replaceAll('"', '""')}"`;
+      })
+      .join(".");
+  }
+}
+
+/**
+ * Options for `ident()`
+ */
+export interface IdentifierOptions {
+  /** Names that are allowed, anything else throws an SQLQueryError */
+  allow?: string[];
+}
+
+/**
+ * Creates an identifier that is quoted in the query's dialect, e.g. for a
+ * user-selected sort column. Dotted names are schema-qualified.
+ *
+ * @example
+ * ```ts
+ * const column = ident(sortColumn, { allow: ["name", "created_at"] });
+ * const query = sql`SELECT * FROM public.users`.sql`ORDER BY ${column}`;
+ * // ORDER BY "created_at"
+ * ```
+ *
+ * @param name - The name, e.g. `users` or `public.users`, or its parts when
+ * they contain dots themselves
+ * @param options - Identifier options, such as an allow-list
+ * @returns The identifier, to be interpolated into a query
+ */
+export function ident(
+  name: string | string[],
+  options: IdentifierOptions = {},
+): Identifier {
+  const parts = Array.isArray(name) ? name : name.split(".");
+  const fullName = parts.join(".");
+  if (options.allow && !options.allow.includes(fullName)) {
+    throw new SQLQueryError(`Identifier "${fullName}" is not allowed`);
+  }
+  return new Identifier(parts);
+}
+
+/**
+ * Verbatim SQL text, interpolated without parameterization or parsing
+ */
+export class RawSQL {
+  /** The SQL text */
+  text: string;
+  /** Whether the text may contain quotes, semicolons or comments in strict mode */
+  allowUnsafe: boolean;
+
+  /**
+   * Creates a new RawSQL
+   *
+   * @param text - The SQL text
+   * @param allowUnsafe - Whether the text passes the strict raw check anyway
+   */
+  constructor(text: string, allowUnsafe = false) {
+    this.text = text;
+    this.allowUnsafe = allowUnsafe;
+  }
+}
+
+/**
+ * Options for `raw()`
+ */
+export interface RawOptions {
+  /** Allow quotes, semicolons and comments even when the query uses `strictRaw` */
+  allowUnsafe?: boolean;
+}
+
+/**
+ * Marks SQL text to be interpolated verbatim. The text is never escaped, so
+ * it must not contain user input; this is the one place to look for unsafe
+ * SQL in code review.
+ *
+ * @example
+ * ```ts
+ * const direction = descending ? raw("DESC") : raw("ASC");
+ * const query = sql`SELECT * FROM users`.sql`ORDER BY name ${direction}`;
+ * ```
+ *
+ * @param text - The SQL text
+ * @param options - Raw options, such as opting out of the strict check
+ * @returns The raw text, to be interpolated into a query
+ */
+export function raw(text: string, options: RawOptions = {}): RawSQL {
+  return new RawSQL(text, options.allowUnsafe ?? false);
+}
+
+/**
+ * A condition for `and()`, `or()` and `not()`. Empty conditions are skipped.
+ */
+export type Condition = SQLQuery | null | undefined | false;
+
+/**
+ * Creates a template strings array, to build a query from its pieces
+ *
+ * @param strings - The text between the interpolated values
+ * @returns The template strings array
+ * @private
+ */
+function templateStrings(strings: string[]): TemplateStringsArray {
+  return Object.assign([...strings], { raw: [...strings] });
+}
+
+/**
+ * Joins conditions with AND or OR into a parenthesized group, skipping the
+ * empty ones and parenthesizing those that combine conditions themselves
+ *
+ * @param operator - The operator joining the conditions
+ * @param conditions - The conditions to join
+ * @returns The group as a fragment, empty if all conditions are
+ * @private
+ */
+function group(operator: "AND" | "OR", conditions: Condition[]): SQLQuery {
+  const present = conditions.filter(
+    (condition): condition is SQLQuery =>
+      condition instanceof SQLQuery &&
+      !isBlank(condition.toString(), condition.dialect === "mysql"),
+  );
+  const nested = present.map(
+    (condition) =>
+      splitConditions(condition.toString(), condition.dialect === "mysql")
+        .length > 1,
+  );
+  const outer = present.length > 1;
+
+  const strings = [outer ? "(" : ""];
+  present.forEach((_, i) => {
+    const open = nested[i] ? "(" : "";
+    strings[i] += open;
+    strings.push(nested[i] ? ")" : "");
+    if (i < present.length - 1) {
+      strings[i + 1] += ` ${operator} `;
+    }
+  });
+  strings[strings.length - 1] += outer ? ")" : "";
+  return SQLQuery.create({}, templateStrings(strings), ...present);
+}
+
+/**
+ * Joins conditions with AND into a parenthesized group. Empty conditions
+ * (`undefined`, `null`, `false` or an empty query) are skipped, so optional
+ * filters can be passed as they are.
+ *
+ * @example
+ * ```ts
+ * const query = sql`SELECT * FROM products`.sql`WHERE ${sql.and(
+ *   minPrice && sql`price >= ${minPrice}`,
+ *   sql.or(sql`stock > ${0}`, sql`backorder = ${true}`),
+ * )}`;
+ * // WHERE (price >= $1 AND (stock > $2 OR backorder = $3))
+ * ```
+ *
+ * @param conditions - The conditions to join
+ * @returns The group as a fragment, empty if all conditions are
+ */
+export function and(...conditions: Condition[]): SQLQuery {
+  return group("AND", conditions);
+}
+
+/**
+ * Joins conditions with OR into a parenthesized group, skipping the empty
+ * ones. See `and()`.
+ *
+ * @param conditions - The conditions to join
+ * @returns The group as a fragment, empty if all conditions are
+ */
+export function or(...conditions: Condition[]): SQLQuery {
+  return group("OR", conditions);
+}
+
+/**
+ * Negates a condition, unless it is empty
+ *
+ * @param condition - The condition to negate
+ * @returns `NOT (condition)` as a fragment, empty if the condition is
+ */
+export function not(condition: Condition): SQLQuery {
+  if (
+    !condition ||
+    isBlank(condition.toString(), condition.dialect === "mysql")
+  ) {
+    return group("AND", []);
+  }
+  return SQLQuery.create({}, templateStrings(["NOT (", ")"]), condition);
+}
+
+/**
+ * Options for keyset pagination
+ */
+export interface PaginationOptions {
+  /** The ORDER BY items to paginate by, instead of the query's own */
+  orderBy?: string[];
+  /** The page size */
+  limit?: number;
+}
+
+/**
+ * Encodes the sort key values of a row as an opaque cursor string
+ *
+ * @param values - The values of the ORDER BY keys, in order
+ * @returns A URL-safe cursor string
+ */
+export function encodeCursor(values: any[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(values));
+  return btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decodes a cursor string created by `encodeCursor`
+ *
+ * @param cursor - The cursor string
+ * @returns The values of the ORDER BY keys, in order
+ * @throws {SQLQueryError} If the cursor is not a valid cursor string
+ */
+export function decodeCursor(cursor: string): any[] {
+  try {
+    const binary = atob(cursor.replaceAll("-", "+").replaceAll("_", "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const values = JSON.parse(new TextDecoder().decode(bytes));
+    if (Array.isArray(values)) {
+      return values;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new SQLQueryError(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * A value whose whole fragment is skipped when the value is `null` or
+ * `undefined`, see `optional()`
+ */
+export class OptionalValue {
+  /** The value, bound as a parameter when present */
+  value: any;
+
+  /**
+   * Creates a new OptionalValue
+   *
+   * @param value - The value
+   */
+  constructor(value: any) {
+    this.value = value;
+  }
+}
+
+/**
+ * Marks a value as optional: when it is `null` or `undefined`, the query or
+ * fragment it is interpolated into is skipped instead of comparing to NULL
+ *
+ * @example
+ * ```ts
+ * const query = sql`SELECT * FROM orders`
+ *   .sql`WHERE status = ${sql.optional(status)}`
+ *   .sql`AND customer_id = ${sql.optional(customerId)}`;
+ * // Only the conditions whose values are present
+ * ```
+ *
+ * @param value - The value
+ * @returns A marker to interpolate into a query
+ */
+export function optional(value: any): OptionalValue {
+  return new OptionalValue(value);
 }
 
 /**
@@ -55,85 +726,1398 @@ interface Params {
   [key: number]: any;
 }
 
-/**
- * Represents an SQL query with support for parameterization and incremental building
- */
-export class SQLQuery {
-  /** The different parts of the SQL query */
-  parts: QueryParts;
-  /** The parameters for the parameterized query (internal storage) */
-  params: Params;
-  /** Counter for generating parameter numbers ($1, $2, etc.) */
-  paramCounter: number;
+/**
+ * A lexical token of SQL text
+ * @private
+ */
+interface Token {
+  /** The kind of token */
+  type:
+    | "whitespace"
+    | "comment"
+    | "line-comment"
+    | "string"
+    | "identifier"
+    | "word"
+    | "number"
+    | "placeholder"
+    | "punctuation"
+    | "operator";
+  /** The original text of the token */
+  text: string;
+  /** The offset of the token in the SQL text */
+  start: number;
+}
+
+/**
+ * Splits SQL text into tokens. String literals (including E'...' and
+ * dollar-quoted bodies), quoted identifiers and comments are single tokens,
+ * so keywords and placeholders inside them are never mistaken for SQL.
+ *
+ * @param text - The SQL text to tokenize
+ * @param backslashes - Whether string literals have backslash escapes, as in MySQL
+ * @returns Consecutive tokens that join back into the original text
+ * @private
+ */
+function tokenize(text: string, backslashes = false): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Finds the end of a quoted run, where a doubled quote is an escaped one
+  const closeQuote = (from: number, quote: string, backslashes = false) => {
+    let end = from;
+    while (end < text.length) {
+      if (backslashes && text[end] === "\\") {
+        end += 2;
+      } else if (text[end] === quote && text[end + 1] === quote) {
+        end += 2;
+      } else if (text[end] === quote) {
+        return end + 1;
+      } else {
+        end++;
+      }
+    }
+    return text.length;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i, i + 2);
+    let type: Token["type"];
+    let end: number;
+
+    if (/\s/.test(char)) {
+      type = "whitespace";
+      end = i + text.slice(i).match(/^\s+/)![0].length;
+    } else if (rest === "--") {
+      // Line comment, the newline itself is whitespace
+      type = "line-comment";
+      end = text.indexOf("\n", i);
+      end = end === -1 ? text.length : end;
+    } else if (rest === "/*") {
+      // Block comment, which may be nested
+      type = "comment";
+      let depth = 0;
+      end = i;
+      while (end < text.length) {
+        if (text.startsWith("/*", end)) {
+          depth++;
+          end += 2;
+        } else if (text.startsWith("*/", end)) {
+          depth--;
+          end += 2;
+          if (depth === 0) {
+            break;
+          }
+        } else {
+          end++;
+        }
+      }
+    } else if (/^[eEnNbBxX]'/.test(rest)) {
+      // Prefixed string literal, with backslash escapes for E'...'
+      type = "string";
+      end = closeQuote(i + 2, "'", /[eE]/.test(char));
+    } else if (char === "'") {
+      type = "string";
+      end = closeQuote(i + 1, "'", backslashes);
+    } else if (char === '"' || char === "`") {
+      // Quoted identifier
+      type = "identifier";
+      end = closeQuote(i + 1, char);
+    } else if (char === "$" && /\d/.test(text[i + 1] ?? "")) {
+      type = "placeholder";
+      end = i + text.slice(i).match(/^\$\d+/)![0].length;
+    } else if (char === "$" && /^\$(?:[A-Za-z_]\w*)?\$/.test(text.slice(i))) {
+      // Dollar-quoted body ($$...$$ or $tag$...$tag$)
+      const tag = text.slice(i).match(/^\$(?:[A-Za-z_]\w*)?\$/)![0];
+      type = "string";
+      end = text.indexOf(tag, i + tag.length);
+      end = end === -1 ? text.length : end + tag.length;
+    } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      type = "word";
+      end = i + text.slice(i).match(/^[\w$\u0080-\uffff]+/)![0].length;
+    } else if (/\d/.test(char) || (char === "." && /\d/.test(text[i + 1]))) {
+      type = "number";
+      end = i + text.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)![0].length;
+    } else if (/[(),;.[\]]/.test(char)) {
+      type = "punctuation";
+      end = i + 1;
+    } else {
+      type = "operator";
+      end = i + 1;
+    }
+
+    tokens.push({ type, text: text.slice(i, end), start: i });
+    i = end;
+  }
+  return tokens;
+}
+
+/**
+ * Computes the nesting depth of every token, counting parentheses, brackets
+ * and CASE ... END blocks. Opening and closing tokens are at the outer depth.
+ *
+ * @param tokens - The tokens of an SQL text
+ * @returns The depth of each token
+ * @private
+ */
+function tokenDepths(tokens: Token[]): number[] {
+  let depth = 0;
+  return tokens.map((token) => {
+    const text = token.type === "word" ? token.text.toLowerCase() : token.text;
+    if (token.type === "punctuation" || token.type === "word") {
+      if (text === ")" || text === "]" || text === "end") {
+        depth = Math.max(0, depth - 1);
+        return depth;
+      }
+      if (text === "(" || text === "[" || text === "case") {
+        return depth++;
+      }
+    }
+    return depth;
+  });
+}
+
+/**
+ * Whether SQL text has nothing but whitespace and comments
+ *
+ * @param text - The SQL text
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns True if there is no SQL in the text
+ * @private
+ */
+function isBlank(text: string, backslashes = false): boolean {
+  return tokenize(text, backslashes).every((token) =>
+    ["whitespace", "comment", "line-comment"].includes(token.type),
+  );
+}
+
+/**
+ * Rewrites every `$N` placeholder of an SQL text, leaving literals,
+ * identifiers and comments untouched
+ *
+ * @param text - The SQL text to rewrite
+ * @param replace - Returns the replacement for the placeholder with the given number
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The rewritten SQL text
+ * @private
+ */
+function mapPlaceholders(
+  text: string,
+  replace: (index: number) => string,
+  backslashes = false,
+): string {
+  return tokenize(text, backslashes)
+    .map((token) =>
+      token.type === "placeholder"
+        ? replace(Number(token.text.substring(1)))
+        : token.text,
+    )
+    .join("");
+}
+
+/**
+ * Removes the semicolon ending an SQL statement, if any, so that clauses
+ * added later don't follow it
+ *
+ * @param text - The SQL text
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The SQL text without its final semicolon
+ * @private
+ */
+function stripSemicolon(text: string, backslashes = false): string {
+  const tokens = tokenize(text, backslashes);
+  const end = tokens.findLastIndex((token) => token.text === ";");
+  if (
+    end === -1 ||
+    !isBlank(text.slice(tokens[end].start + 1), backslashes)
+  ) {
+    return text;
+  }
+  const { start } = tokens[end];
+  return text.slice(0, start) + text.slice(start + 1);
+}
+
+/**
+ * Whether a LIMIT or OFFSET value is a literal that isn't a number, such as
+ * `ten` or `'10'`. Expressions like `$1 + 1` are left to the database.
+ *
+ * @param text - The value
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns True if the value can't be a row count
+ * @private
+ */
+function nonNumericLiteral(text: string, backslashes = false): boolean {
+  const tokens = tokenize(text, backslashes).filter(
+    (token) => !["whitespace", "comment", "line-comment"].includes(token.type),
+  );
+  if (tokens.length !== 1) {
+    return false;
+  }
+  const [token] = tokens;
+  return (
+    ["string", "identifier"].includes(token.type) ||
+    (token.type === "word" && !/^(all|null)$/i.test(token.text))
+  );
+}
+
+/**
+ * Writes an identifier as a marked quoted identifier, quoted in the dialect
+ * of the query when it is rendered. The marker is a NUL character, which
+ * identifiers can't contain.
+ *
+ * @param identifier - The identifier
+ * @returns The marked identifier, e.g. `"\0public"."\0users"`
+ * @private
+ */
+function markIdentifier(identifier: Identifier): string {
+  return identifier.parts
+    .map((part) => `"\0${part.replaceAll('"', '""')}"`)
+    .join(".");
+}
+
+/**
+ * Quotes the identifiers marked by `markIdentifier` in a dialect
+ *
+ * @param text - The SQL text
+ * @param dialect - The dialect to quote for
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The SQL text with its marked identifiers quoted
+ * @private
+ */
+function quoteIdentifiers(
+  text: string,
+  dialect: Dialect,
+  backslashes = false,
+): string {
+  return tokenize(text, backslashes)
+    .map((token) => {
+      if (token.type !== "identifier" || !token.text.startsWith('"\0')) {
+        return token.text;
+      }
+      const name = token.text.slice(2, -1).replaceAll('""', '"');
+      return new Identifier([name]).quote(dialect);
+    })
+    .join("");
+}
+
+/**
+ * Splits an SQL list on its top-level commas
+ *
+ * @param text - The SQL list, e.g. `a, COALESCE(b, c), d`
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The trimmed, non-empty items
+ * @private
+ */
+function splitList(text: string, backslashes = false): string[] {
+  const tokens = tokenize(text, backslashes);
+  const depths = tokenDepths(tokens);
+  const items: string[] = [];
+  let start = 0;
+  tokens.forEach((token, i) => {
+    if (depths[i] === 0 && token.text === ",") {
+      items.push(text.slice(start, token.start));
+      start = token.start + 1;
+    }
+  });
+  items.push(text.slice(start));
+  return items
+    .map((item) => item.trim())
+    .filter((item) => !isBlank(item, backslashes));
+}
+
+/**
+ * A clause of an SQL statement as returned by `splitClauses`
+ * @private
+ */
+interface Clause {
+  /** The clause keyword, lowercase, or "" for text before the first keyword */
+  keyword: string;
+  /** The clause without its keyword */
+  body: string;
+  /** The clause including its keyword, as written */
+  text: string;
+}
+
+/**
+ * Splits an SQL statement into clauses at the top-level occurrences of the
+ * given keywords, wherever they are in the text
+ *
+ * @param text - The SQL statement to split
+ * @param keywords - Clause keywords, lowercase, words separated by single spaces
+ * @param final - Keywords whose clause runs to the end of the statement,
+ * except for the keywords they list
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The clauses in order, with any text before the first keyword
+ * under an empty keyword
+ * @private
+ */
+function splitClauses(
+  text: string,
+  keywords: string[],
+  final: Record<string, string[]> = {},
+  backslashes = false,
+): Clause[] {
+  const tokens = tokenize(text, backslashes);
+  const depths = tokenDepths(tokens);
+  const starts: { keyword: string; start: number; bodyStart: number }[] = [
+    { keyword: "", start: 0, bodyStart: 0 },
+  ];
+  // Longest keywords first, so "union all" wins over "union"
+  let allowed = [...keywords].sort(
+    (a, b) => b.split(" ").length - a.split(" ").length,
+  );
+  const maxWords = allowed[0]?.split(" ").length ?? 0;
+  let previousWord = "";
+
+  for (let i = 0; i < tokens.length; i++) {
+    // Qualified names such as p.limit are columns, not keywords
+    if (
+      depths[i] !== 0 ||
+      tokens[i].type !== "word" ||
+      tokens[i - 1]?.text === "."
+    ) {
+      continue;
+    }
+
+    // The next few words, allowing whitespace and comments between them
+    const words: { word: string; index: number }[] = [];
+    for (let j = i; j < tokens.length && words.length < maxWords; j++) {
+      if (tokens[j].type === "word") {
+        words.push({ word: tokens[j].text.toLowerCase(), index: j });
+      } else if (
+        !["whitespace", "comment", "line-comment"].includes(tokens[j].type)
+      ) {
+        break;
+      }
+    }
+
+    const keyword = allowed.find((keyword) =>
+      keyword.split(" ").every((word, n) => words[n]?.word === word),
+    );
+    // IS [NOT] DISTINCT FROM is an operator, not a FROM clause
+    if (keyword && !(keyword === "from" && previousWord === "distinct")) {
+      const last = words[keyword.split(" ").length - 1].index;
+      starts.push({
+        keyword,
+        start: tokens[i].start,
+        bodyStart: tokens[last].start + tokens[last].text.length,
+      });
+      if (final[keyword]) {
+        allowed = allowed.filter((other) => final[keyword].includes(other));
+      }
+      i = last;
+    }
+    previousWord = tokens[i].text.toLowerCase();
+  }
+
+  return starts
+    .map(({ keyword, start, bodyStart }, n) => {
+      const end = n + 1 < starts.length ? starts[n + 1].start : text.length;
+      return {
+        keyword,
+        body: text.slice(bodyStart, end).trim(),
+        text: text.slice(start, end).trim(),
+      };
+    })
+    .filter(({ keyword, text }) => keyword || !isBlank(text, backslashes));
+}
+
+/**
+ * Splits a WHERE or HAVING body into conditions at its top-level AND and OR
+ * operators, leaving the AND of BETWEEN ... AND ... alone
+ *
+ * @param text - The conditions, e.g. `a = 1 AND (b = 2 OR c = 3)`
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The conditions with the operator preceding them, if any
+ * @private
+ */
+function splitConditions(
+  text: string,
+  backslashes = false,
+): { operator: "AND" | "OR" | null; condition: string }[] {
+  const tokens = tokenize(text, backslashes);
+  const depths = tokenDepths(tokens);
+  const conditions: { operator: "AND" | "OR" | null; condition: string }[] =
+    [];
+  let operator: "AND" | "OR" | null = null;
+  let start = 0;
+  let between = false;
+
+  tokens.forEach((token, i) => {
+    if (
+      depths[i] !== 0 ||
+      token.type !== "word" ||
+      tokens[i - 1]?.text === "."
+    ) {
+      return;
+    }
+    const word = token.text.toUpperCase();
+    if (word === "BETWEEN") {
+      between = true;
+    } else if (word === "AND" && between) {
+      between = false;
+    } else if (word === "AND" || word === "OR") {
+      conditions.push({ operator, condition: text.slice(start, token.start) });
+      operator = word;
+      start = token.start + token.text.length;
+    }
+  });
+  conditions.push({ operator, condition: text.slice(start) });
+
+  return conditions
+    .map(({ operator, condition }) => ({
+      operator,
+      condition: condition.trim(),
+    }))
+    .filter(({ condition }) => !isBlank(condition, backslashes));
+}
+
+/**
+ * Indents every line after the first of an SQL text by two spaces, so a
+ * clause written over several lines lines up in the rendered query
+ *
+ * @param text - The SQL text, e.g. a JOIN with its ON condition on a new line
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The reindented SQL text
+ * @private
+ */
+function reindent(text: string, backslashes = false): string {
+  return tokenize(text, backslashes)
+    .map((token) =>
+      token.type === "whitespace" && token.text.includes("\n")
+        ? "\n  "
+        : token.text,
+    )
+    .join("");
+}
+
+/**
+ * Indents the lines after the first of an SQL text by a prefix, keeping
+ * their indentation relative to each other. Line breaks inside literals and
+ * comments are left alone.
+ *
+ * @param text - The SQL text
+ * @param prefix - The indentation of the lines after the first
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The indented SQL text
+ * @private
+ */
+function indentLines(
+  text: string,
+  prefix: string,
+  backslashes = false,
+): string {
+  const tokens = tokenize(text, backslashes);
+  const breaks = tokens.filter(
+    (token) => token.type === "whitespace" && token.text.includes("\n"),
+  );
+  if (breaks.length === 0) {
+    return text;
+  }
+
+  const depth = (token: Token) =>
+    token.text.length - token.text.lastIndexOf("\n") - 1;
+  const least = Math.min(...breaks.map(depth));
+  return tokens
+    .map((token) =>
+      breaks.includes(token)
+        ? `\n${prefix}${" ".repeat(depth(token) - least)}`
+        : token.text,
+    )
+    .join("");
+}
+
+/**
+ * A clause of a query ready to be laid out
+ * @private
+ */
+interface RenderedClause {
+  /** The clause keyword, or "" for text that stands on its own */
+  keyword: string;
+  /**
+   * How the items are laid out: as text following the keyword, as a list
+   * following the keyword, as a list with an item per line under the keyword
+   * ("block") or next to it ("stacked"), or as conditions with an item per line
+   */
+  layout: "text" | "inline" | "block" | "stacked" | "conditions";
+  /** The items of the clause, conditions after the first starting with AND or OR */
+  items: string[];
+}
+
+/**
+ * Lays out the clauses of a query
+ *
+ * @param clauses - The clauses in order
+ * @param options - How to lay out the clauses
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The SQL text
+ * @private
+ */
+function layoutClauses(
+  clauses: RenderedClause[],
+  options: FormatOptions,
+  backslashes = false,
+): string {
+  const indent = " ".repeat(options.indent ?? 2);
+  const leading = options.commaPosition === "leading";
+
+  // Aligned clauses have the first words of their keywords right-aligned,
+  // and their items lined up after the longest of them
+  const firstWord = (text: string) => text.split(/\s/)[0];
+  const width = options.align
+    ? Math.max(...clauses.map(({ keyword }) => firstWord(keyword).length))
+    : 0;
+  const pad = (text: string) =>
+    " ".repeat(Math.max(0, width - firstWord(text).length)) + text;
+  const column = options.align ? " ".repeat(width + 1) : indent;
+
+  // Lines continuing an item are kept as written, unless the indentation
+  // changes
+  const continued = (text: string, prefix: string) =>
+    options.align || indent !== "  "
+      ? indentLines(text, prefix, backslashes)
+      : text;
+
+  // Lists with an item per line, and their continuation lines
+  const list = (items: string[], prefix: string) =>
+    items
+      .map((item, i) => {
+        const text = continued(item, prefix);
+        if (i === 0) {
+          return text;
+        }
+        return leading ? `\n${prefix.slice(2)}, ${text}` : `,\n${prefix}${text}`;
+      })
+      .join("");
+
+  return clauses
+    .map(({ keyword, layout, items }) => {
+      if (!keyword) {
+        return items.join("\n");
+      }
+      const head = options.align ? pad(keyword) : keyword;
+      // Aligned lists continue under their first item, e.g. after GROUP BY,
+      // while other clauses such as joins continue on the items' column
+      const start = options.align ? " ".repeat(head.length + 1) : indent;
+
+      if (layout === "conditions") {
+        return items
+          .map((item, i) => {
+            const text = continued(item, column);
+            if (i === 0) {
+              return `${head} ${text}`;
+            }
+            return options.align ? pad(text) : `${indent}${text}`;
+          })
+          .join("\n");
+      }
+      if (layout === "block" && !options.align) {
+        return `${head}\n${indent}${list(items, indent)}`;
+      }
+      if (layout === "block" || layout === "stacked") {
+        return `${head} ${list(items, options.align ? start : "")}`;
+      }
+      if (items.length === 0 || !items.join("")) {
+        return head;
+      }
+      return `${head} ${continued(
+        items.join(", "),
+        layout === "inline" ? start : column,
+      )}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Words recased by the `keywordCase` format option
+ * @private
+ */
+const SQL_KEYWORDS = [
+  "all",
+  "and",
+  "any",
+  "as",
+  "asc",
+  "between",
+  "by",
+  "case",
+  "conflict",
+  "cross",
+  "delete",
+  "desc",
+  "distinct",
+  "do",
+  "else",
+  "end",
+  "except",
+  "exists",
+  "false",
+  "first",
+  "from",
+  "full",
+  "group",
+  "having",
+  "ilike",
+  "in",
+  "inner",
+  "insert",
+  "intersect",
+  "into",
+  "is",
+  "join",
+  "last",
+  "lateral",
+  "left",
+  "like",
+  "limit",
+  "natural",
+  "not",
+  "nothing",
+  "null",
+  "nulls",
+  "offset",
+  "on",
+  "or",
+  "order",
+  "outer",
+  "recursive",
+  "returning",
+  "right",
+  "select",
+  "set",
+  "some",
+  "then",
+  "true",
+  "union",
+  "update",
+  "using",
+  "values",
+  "when",
+  "where",
+  "with",
+];
+
+/**
+ * Changes the case of the SQL keywords in a text, leaving literals, quoted
+ * identifiers, comments and qualified names such as `t.order` alone
+ *
+ * @param text - The SQL text
+ * @param keywordCase - The new case of the keywords
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The SQL text with its keywords recased
+ * @private
+ */
+function recaseKeywords(
+  text: string,
+  keywordCase: "upper" | "lower",
+  backslashes = false,
+): string {
+  const tokens = tokenize(text, backslashes);
+  return tokens
+    .map((token, i) =>
+      token.type === "word" &&
+      tokens[i - 1]?.text !== "." &&
+      SQL_KEYWORDS.includes(token.text.toLowerCase())
+        ? keywordCase === "upper"
+          ? token.text.toUpperCase()
+          : token.text.toLowerCase()
+        : token.text,
+    )
+    .join("");
+}
+
+/**
+ * Whether two encoded parameter values are the same, comparing dates by
+ * their time and arrays and binary data by their items
+ *
+ * @param a - A parameter value
+ * @param b - Another parameter value
+ * @returns True if binding either value gives the same result
+ * @private
+ */
+function sameValue(a: any, b: any): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return Object.is(a.getTime(), b.getTime());
+  }
+  if (
+    (Array.isArray(a) && Array.isArray(b)) ||
+    (a instanceof Uint8Array && b instanceof Uint8Array)
+  ) {
+    return (
+      a.length === b.length &&
+      Array.from(a as ArrayLike<any>).every((item, i) => sameValue(item, b[i]))
+    );
+  }
+  return Object.is(a, b);
+}
+
+/**
+ * Whether the parentheses of an SQL text are balanced, ignoring those in
+ * literals, quoted identifiers and comments
+ *
+ * @param text - The SQL text
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns True if every parenthesis is closed, in order
+ * @private
+ */
+function balancedParentheses(text: string, backslashes = false): boolean {
+  let depth = 0;
+  for (const token of tokenize(text, backslashes)) {
+    if (token.text === "(") {
+      depth++;
+    } else if (token.text === ")" && --depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+/**
+ * Writes a parameter value as an SQL literal of a dialect, for reading
+ * rather than executing
+ *
+ * @param value - The parameter value, as bound
+ * @param dialect - The dialect of the literal
+ * @returns The SQL literal
+ * @private
+ */
+function debugLiteral(value: any, dialect: Dialect): string {
+  const quote = (text: string) => {
+    // MySQL treats backslashes in strings as escapes
+    const escaped = dialect === "mysql" ? text.replaceAll("\\", "\\\\") : text;
+    return `'${escaped.replaceAll("'", "''")}'`;
+  };
+
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    // SQL Server and Oracle have no boolean literals
+    if (dialect === "mssql" || dialect === "oracle") {
+      return value ? "1" : "0";
+    }
+    return value ? "TRUE" : "FALSE";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : quote(String(value));
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    const timestamp = iso.replace("T", " ").replace("Z", "");
+    return {
+      postgres: `${quote(iso)}::timestamptz`,
+      mysql: quote(timestamp),
+      sqlite: quote(iso),
+      mssql: quote(iso),
+      oracle: `TIMESTAMP ${quote(timestamp)}`,
+    }[dialect];
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Array.from(value, (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    return {
+      postgres: `'\\x${hex}'::bytea`,
+      mysql: `X'${hex}'`,
+      sqlite: `X'${hex}'`,
+      mssql: `0x${hex}`,
+      oracle: `HEXTORAW('${hex}')`,
+    }[dialect];
+  }
+  if (Array.isArray(value)) {
+    // Arrays bound as a single parameter
+    const items = value.map((item) => debugLiteral(item, dialect));
+    if (dialect === "postgres") {
+      return items.length > 0 ? `ARRAY[${items.join(", ")}]` : "'{}'";
+    }
+    return items.join(", ");
+  }
+  if (typeof value === "object") {
+    return quote(JSON.stringify(value));
+  }
+  return quote(String(value));
+}
+
+/**
+ * Splits a JOIN clause into its type, table, alias and condition
+ *
+ * @param text - The JOIN clause, e.g. `LEFT JOIN owners o ON o.id = p.owner_id`
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The parts of the clause
+ * @private
+ */
+function parseJoin(text: string, backslashes = false): JoinPart {
+  const [{ keyword, body }] = splitClauses(
+    text,
+    JOIN_KEYWORDS,
+    {},
+    backslashes,
+  );
+
+  // The condition starts at the first top-level ON or USING
+  const tokens = tokenize(body, backslashes);
+  const depths = tokenDepths(tokens);
+  const conditionStart = tokens.find(
+    (token, i) =>
+      depths[i] === 0 &&
+      token.type === "word" &&
+      ["on", "using"].includes(token.text.toLowerCase()),
+  )?.start;
+  const source = body.slice(0, conditionStart).trim();
+  const condition =
+    conditionStart === undefined ? null : body.slice(conditionStart).trim();
+
+  // The alias follows AS, or is a bare name following the table
+  const sourceTokens = tokenize(source, backslashes);
+  const sourceDepths = tokenDepths(sourceTokens);
+  const top = sourceTokens.filter(
+    (token, i) =>
+      sourceDepths[i] === 0 &&
+      !["whitespace", "comment", "line-comment"].includes(token.type),
+  );
+  const as = top.findIndex(
+    (token) => token.type === "word" && token.text.toLowerCase() === "as",
+  );
+  const previous = top[top.length - 2];
+  const last = top[top.length - 1];
+  let tableEnd: number | undefined;
+  let alias: Token | undefined;
+  if (as !== -1) {
+    tableEnd = top[as].start;
+    alias = top[as + 1];
+  } else if (
+    previous &&
+    ["word", "identifier"].includes(last.type) &&
+    !["lateral", "only", "."].includes(previous.text.toLowerCase())
+  ) {
+    tableEnd = last.start;
+    alias = last;
+  }
+
+  return {
+    type: keyword.toUpperCase(),
+    table: source.slice(0, tableEnd).trim(),
+    alias: alias?.text ?? null,
+    condition,
+    text,
+  };
+}
+
+/**
+ * Gets the name a JOIN clause is known by: its alias, or the name of the
+ * joined table. Unquoted names are compared case-insensitively.
+ *
+ * @param join - The JOIN clause
+ * @returns The normalized name, or null for a subquery without an alias
+ * @private
+ */
+function joinName(join: JoinPart): string | null {
+  const name =
+    join.alias ?? join.table.match(/(?:^|[.\s])("[^"]+"|`[^`]+`|\w+)$/)?.[1];
+  return name ? normalizeName(name) : null;
+}
+
+/**
+ * Normalizes an SQL name for comparison: quoted names, including those
+ * written by `ident()`, keep their case, unquoted names are lowercased
+ *
+ * @param name - The name, optionally quoted
+ * @returns The normalized name
+ * @private
+ */
+function normalizeName(name: string): string {
+  const quoted = name.match(/^["`\[]\0?(.*)["`\]]$/);
+  return quoted ? quoted[1] : name.toLowerCase();
+}
+
+/**
+ * An ORDER BY item split into its expression, direction and NULLS placement
+ * @private
+ */
+interface SortKey {
+  /** The sorted expression */
+  expression: string;
+  /** Whether the direction is DESC */
+  descending: boolean;
+  /** The NULLS FIRST or NULLS LAST placement, if given */
+  nulls: "first" | "last" | null;
+}
+
+/**
+ * Splits an ORDER BY item into its expression, direction and NULLS placement
+ *
+ * @param item - The ORDER BY item, e.g. `created_at DESC NULLS LAST`
+ * @returns The sort key
+ * @private
+ */
+function parseSortKey(item: string): SortKey {
+  const match = item
+    .trim()
+    .match(/^(.*?)(?:\s+(asc|desc))?(?:\s+nulls\s+(first|last))?$/is)!;
+  return {
+    expression: match[1],
+    descending: match[2]?.toLowerCase() === "desc",
+    nulls: (match[3]?.toLowerCase() as SortKey["nulls"]) ?? null,
+  };
+}
+
+/**
+ * Applies a function to every string in a value, recursing into arrays and
+ * plain objects
+ *
+ * @param value - The value, e.g. the parts of a query
+ * @param map - Returns the replacement for a string
+ * @returns A copy of the value with the strings replaced
+ * @private
+ */
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === "string") {
+    return map(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Collapses SQL text onto a single line so it can be embedded into another
+ * query, turning line comments into block comments
+ *
+ * @param text - The SQL text to collapse
+ * @param backslashes - Whether string literals have backslash escapes
+ * @returns The SQL text on a single line
+ * @private
+ */
+function inlineSQL(text: string, backslashes = false): string {
+  return tokenize(text, backslashes)
+    .map((token) => {
+      if (token.type === "whitespace") {
+        return " ";
+      }
+      if (token.type === "line-comment") {
+        return `/*${token.text.slice(2).replaceAll("*/", "* /")} */`;
+      }
+      return token.text;
+    })
+    .join("")
+    .trim();
+}
+
+/**
+ * Represents an SQL query with support for parameterization and incremental building
+ *
+ * @typeParam T - The type of the rows the query returns
+ */
+export class SQLQuery<T = any> {
+  /** Registered encoders for parameter values, most recent first */
+  static encoders: ValueEncoder[] = [];
+
+  /** The type of the rows the query returns, for type inference only */
+  declare readonly rowType?: T;
+
+  /** The different parts of the SQL query */
+  parts: QueryParts;
+  /** The parameters for the parameterized query (internal storage) */
+  params: Params;
+  /** Counter for generating parameter numbers ($1, $2, etc.) */
+  paramCounter: number;
+  /** Parameter numbers of the named parameters, by name */
+  paramNames: Record<string, number>;
+  /** The parameters as encoded for each dialect, with their casts, by number */
+  paramEncodings: Record<number, Partial<Record<Dialect, EncodedValue>>>;
+  /** Options controlling how the query is built and rendered */
+  options: SQLQueryOptions;
+  /** The clause that AND/OR conditions are added to (the last one used) */
+  conditionClause: "where" | "having";
+  /** Problems found while building the query, reported by `validate()` */
+  buildDiagnostics: Diagnostic[];
+
+  /**
+   * Creates a new SQLQuery instance
+   *
+   * @param strings - Template strings array if created with template literal
+   * @param values - Values to be interpolated into the query
+   */
+  constructor(strings?: TemplateStringsArray, ...values: any[]) {
+    this.parts = {
+      type: "select",
+      with: [],
+      withRecursive: false,
+      insertInto: null,
+      values: [],
+      onConflict: null,
+      update: null,
+      set: [],
+      using: null,
+      returning: [],
+      select: [],
+      from: null,
+      joins: [],
+      where: [],
+      groupBy: [],
+      having: [],
+      compound: [],
+      orderBy: [],
+      limit: null,
+      offset: null,
+      lock: null,
+      fragment: null,
+    };
+
+    this.params = {};
+    this.paramCounter = 0;
+    this.paramNames = {};
+    this.paramEncodings = {};
+    this.options = {};
+    this.conditionClause = "where";
+    this.buildDiagnostics = [];
+
+    // Process initial template literal, unless it is skipped
+    if (strings && strings.length > 0 && this._skips(values)) {
+      this.parseInitialQuery("");
+    } else if (strings && strings.length > 0) {
+      const fullQuery = this._interpolate(strings, values);
+      this.parseInitialQuery(fullQuery);
+      this._pruneParams();
+    }
+  }
+
+  /**
+   * Interpolates values into the template strings and handles parameterization
+   *
+   * @param strings - Template strings array
+   * @param values - Values to be interpolated
+   * @returns The interpolated query string with parameters
+   * @private
+   */
+  private _interpolate(strings: TemplateStringsArray, values: any[]): string {
+    return strings.reduce((result, string, i) => {
+      if (i < values.length) {
+        return result + string + this._value(values[i]);
+      }
+      return result + string;
+    }, "");
+  }
+
+  /**
+   * Converts a single interpolated value to SQL text, creating numbered
+   * parameters as needed
+   *
+   * @param value - The interpolated value
+   * @returns The SQL text standing for the value
+   * @private
+   */
+  private _value(value: any): string {
+    // Handle undefined values by replacing with NULL
+    if (value === undefined) {
+      if (this.options.undefinedValues === "throw") {
+        throw new SQLQueryError("Cannot interpolate an undefined value");
+      }
+      return "NULL";
+    }
+
+    if (value instanceof SQLQuery) {
+      // Nested queries and fragments bring their own parameters along
+      return this._embed(value);
+    } else if (value instanceof RawSQL) {
+      // Raw text is inserted verbatim, optionally after a safety check
+      if (
+        this.options.strictRaw &&
+        !value.allowUnsafe &&
+        /['"`;]|--|\/\*/.test(value.text)
+      ) {
+        throw new SQLQueryError(
+          `Raw SQL contains quotes, semicolons or comments: ${value.text}`,
+        );
+      }
+      return value.text;
+    } else if (value instanceof Identifier) {
+      // Identifiers are quoted text, never parameters, quoted once the
+      // dialect is known
+      return markIdentifier(value);
+    } else if (value instanceof NamedParameter) {
+      // Named parameters share one placeholder per name. Without a value
+      // they are bound later, and encoded then.
+      if (value.value === undefined) {
+        return `$${this._bindNamed(value.name, undefined)}`;
+      }
+      const encoded = this._encode(value.value);
+      const index = this._bindNamed(value.name, encoded.value);
+      this._setEncodings(index, encoded.encodings);
+      return `$${index}`;
+    } else if (value instanceof OptionalValue) {
+      // Present optional values are plain values
+      return this._value(value.value);
+    } else if (Array.isArray(value)) {
+      // Lists either bind as a single array parameter or expand to one
+      // parameter per item, e.g. for IN (...)
+      if (this.options.arrayParameters === "bind") {
+        return this._bind(value);
+      }
+      if (value.length === 0) {
+        if (this.options.emptyArrays === "throw") {
+          throw new SQLQueryError("Cannot interpolate an empty array");
+        }
+        if (this.options.emptyArrays === "false") {
+          // MySQL and Oracle select without a table from DUAL
+          return ["mysql", "oracle"].includes(this.dialect)
+            ? "SELECT NULL FROM DUAL WHERE 1 = 0"
+            : "SELECT NULL WHERE 1 = 0";
+        }
+        return "NULL";
+      }
+      return value.map((item) => this._value(item)).join(", ");
+    } else if (value !== null) {
+      // Other values are parameters, converted by the first encoder that
+      // handles them
+      const encoded = this._encode(value);
+      const placeholder = this._bind(encoded.value);
+      this._setEncodings(this.paramCounter, encoded.encodings);
+      return placeholder;
+    } else {
+      return String(value);
+    }
+  }
+
+  /**
+   * Encodes a parameter value with the first encoder that handles it: those
+   * in the options, then the registered ones, then the built-in ones. The
+   * value is encoded for every dialect, as the query can be rendered in
+   * another one than its own.
+   *
+   * @param value - The parameter value
+   * @returns The value to bind in the query's dialect, and its encodings by
+   * dialect
+   * @private
+   */
+  private _encode(value: any): {
+    value: any;
+    encodings: Partial<Record<Dialect, EncodedValue>>;
+  } {
+    const encoders = [
+      ...(this.options.encoders ?? []),
+      ...SQLQuery.encoders,
+      ...BUILTIN_ENCODERS,
+    ];
+    const encoder = encoders.find((encoder) => encoder.test(value));
+    if (!encoder) {
+      return { value, encodings: {} };
+    }
+    const encodings: Partial<Record<Dialect, EncodedValue>> = {};
+    for (const dialect of DIALECTS) {
+      encodings[dialect] = encoder.encode(value, dialect);
+    }
+    return { value: encodings[this.dialect]!.value, encodings };
+  }
+
+  /**
+   * Sets the encodings of a parameter, or removes them if there are none
+   *
+   * @param index - The parameter number
+   * @param encodings - The encoded values and casts, by dialect
+   * @private
+   */
+  private _setEncodings(
+    index: number,
+    encodings: Partial<Record<Dialect, EncodedValue>> = {},
+  ): void {
+    if (Object.keys(encodings).length > 0) {
+      this.paramEncodings[index] = encodings;
+    } else {
+      delete this.paramEncodings[index];
+    }
+  }
+
+  /**
+   * Gets the value of a parameter as encoded for a dialect
+   *
+   * @param index - The parameter number
+   * @param dialect - The dialect the query is rendered in
+   * @returns The value to bind
+   * @private
+   */
+  private _paramValue(index: number, dialect: Dialect): any {
+    const encoded = this.paramEncodings[index]?.[dialect];
+    return encoded ? encoded.value : this.params[index];
+  }
+
+  /**
+   * Checks whether a fragment is skipped because of its values: missing
+   * optional values, or undefined ones with the "skip" policy
+   *
+   * @param values - The values interpolated into the fragment
+   * @returns True if the fragment is skipped
+   * @private
+   */
+  private _skips(values: any[]): boolean {
+    return values.some(
+      (value) =>
+        (value instanceof OptionalValue &&
+          (value.value === null || value.value === undefined)) ||
+        (value === undefined && this.options.undefinedValues === "skip"),
+    );
+  }
 
   /**
-   * Creates a new SQLQuery instance
+   * Adds a numbered parameter
    *
-   * @param strings - Template strings array if created with template literal
-   * @param values - Values to be interpolated into the query
+   * @param value - The parameter value
+   * @returns The placeholder of the new parameter
+   * @private
    */
-  constructor(strings?: TemplateStringsArray, ...values: any[]) {
-    this.parts = {
-      select: [],
-      from: null,
-      joins: [],
-      where: [],
-      groupBy: [],
-      orderBy: [],
-      limit: null,
-      offset: null,
-    };
+  private _bind(value: any): string {
+    this.paramCounter++;
+    this.params[this.paramCounter] = value;
+    return `$${this.paramCounter}`;
+  }
 
-    this.params = {};
-    this.paramCounter = 0;
+  /**
+   * Adds a named parameter, or reuses the parameter already using the name
+   *
+   * @param name - The parameter name
+   * @param value - The parameter value
+   * @returns The number of the parameter
+   * @private
+   */
+  private _bindNamed(name: string, value: any): number {
+    if (!Object.hasOwn(this.paramNames, name)) {
+      this._bind(value);
+      this.paramNames[name] = this.paramCounter;
+      return this.paramCounter;
+    }
 
-    // Process initial template literal
-    if (strings && strings.length > 0) {
-      const fullQuery = this._interpolate(strings, values);
-      this.parseInitialQuery(fullQuery);
+    const index = this.paramNames[name];
+    if (this.params[index] === undefined) {
+      this.params[index] = value;
+    } else if (value !== undefined && !sameValue(this.params[index], value)) {
+      throw new SQLQueryError(
+        `Parameter "${name}" is already bound to a different value`,
+      );
     }
+    return index;
   }
 
   /**
-   * Interpolates values into the template strings and handles parameterization
+   * Embeds another query into this one, merging its parameters into ours and
+   * renumbering its placeholders so they follow the ones already in use
    *
-   * @param strings - Template strings array
-   * @param values - Values to be interpolated
-   * @returns The interpolated query string with parameters
+   * @param query - The query or fragment to embed
+   * @param inline - Whether to collapse the query onto a single line
+   * @returns The SQL text of the embedded query
    * @private
    */
-  private _interpolate(strings: TemplateStringsArray, values: any[]): string {
-    return strings.reduce((result, string, i) => {
-      if (i < values.length) {
-        const value = values[i];
+  private _embed(query: SQLQuery, inline = true): string {
+    const mapping: Record<number, number> = {};
+    const names: Record<number, string> = {};
+    for (const [name, index] of Object.entries(query.paramNames)) {
+      names[index] = name;
+    }
+    const indexes = Object.keys(query.params)
+      .map(Number)
+      .sort((a, b) => a - b);
+    for (const index of indexes) {
+      const value = query.params[index];
+      if (index in names) {
+        mapping[index] = this._bindNamed(names[index], value);
+      } else {
+        this._bind(value);
+        mapping[index] = this.paramCounter;
+      }
+      if (index in query.paramEncodings) {
+        this._setEncodings(mapping[index], query.paramEncodings[index]);
+      }
+    }
 
-        // Handle undefined values by replacing with NULL
-        if (value === undefined) {
-          return result + string + "NULL";
-        }
+    const text = inline
+      ? inlineSQL(query._render(), query._backslashes)
+      : query._render();
+    return mapPlaceholders(
+      text,
+      (index) => (index in mapping ? `$${mapping[index]}` : `$${index}`),
+      query._backslashes,
+    );
+  }
 
-        // Handle parameter values
-        if (value !== null && typeof value !== "object") {
-          // For primitive values, create a numbered parameter
-          this.paramCounter++;
-          this.params[this.paramCounter] = value;
-          return result + string + `$${this.paramCounter}`;
-        } else if (
-          value !== null &&
-          typeof value === "object" &&
-          !(value instanceof SQLQuery)
-        ) {
-          // Handle parameter objects - convert to numbered parameters
-          this.paramCounter++;
-          const paramValue = Object.values(value)[0];
-          this.params[this.paramCounter] = paramValue;
-          return result + string + `$${this.paramCounter}`;
-        } else {
-          return result + string + value;
-        }
+  /**
+   * Drops the parameters no part of the query refers to any more, such as
+   * those of a duplicate join that was skipped, and renumbers the rest
+   *
+   * @private
+   */
+  private _pruneParams(): void {
+    const used = new Set<number>();
+    mapStrings(this.parts, (text) =>
+      mapPlaceholders(
+        text,
+        (index) => {
+          used.add(index);
+          return `$${index}`;
+        },
+        this._backslashes,
+      ),
+    );
+    const indexes = Object.keys(this.params)
+      .map(Number)
+      .sort((a, b) => a - b);
+    if (indexes.every((index) => used.has(index))) {
+      return;
+    }
+
+    const mapping: Record<number, number> = {};
+    const params: Params = {};
+    const encodings: SQLQuery["paramEncodings"] = {};
+    let counter = 0;
+    for (const index of indexes.filter((index) => used.has(index))) {
+      mapping[index] = ++counter;
+      params[counter] = this.params[index];
+      if (index in this.paramEncodings) {
+        encodings[counter] = this.paramEncodings[index];
       }
-      return result + string;
-    }, "");
+    }
+    this.parts = mapStrings(this.parts, (text) =>
+      mapPlaceholders(
+        text,
+        (index) => `$${mapping[index] ?? index}`,
+        this._backslashes,
+      ),
+    );
+    this.params = params;
+    this.paramEncodings = encodings;
+    this.paramCounter = counter;
+    this.paramNames = Object.fromEntries(
+      Object.entries(this.paramNames)
+        .filter(([, index]) => index in mapping)
+        .map(([name, index]) => [name, mapping[index]]),
+    );
+  }
+
+  /**
+   * Creates an independent copy of this query
+   *
+   * @returns A new SQLQuery instance with the same parts and parameters
+   * @private
+   */
+  private _clone(): SQLQuery<T> {
+    const newQuery = new SQLQuery<T>();
+    newQuery.parts = structuredClone(this.parts);
+    newQuery.params = { ...this.params };
+    newQuery.paramCounter = this.paramCounter;
+    newQuery.paramNames = { ...this.paramNames };
+    newQuery.paramEncodings = { ...this.paramEncodings };
+    newQuery.options = { ...this.options };
+    newQuery.conditionClause = this.conditionClause;
+    newQuery.buildDiagnostics = [...this.buildDiagnostics];
+    return newQuery;
   }
 
   /**
@@ -143,60 +2127,37 @@ export class SQLQuery {
    */
   parseQuery(query: string): void {
     // Identify and classify the SQL fragment
-    const trimmedQuery = query.trim();
+    const trimmedQuery = stripSemicolon(query, this._backslashes).trim();
     const lowerQuery = trimmedQuery.toLowerCase();
 
-    if (lowerQuery.startsWith("select")) {
-      // This is a SELECT statement - should not happen in append mode
+    if (this.parts.fragment === "") {
+      // An empty query becomes whatever is added first
+      this.parts.fragment = null;
       this.parseInitialQuery(trimmedQuery);
-    } else if (lowerQuery.startsWith("from")) {
-      // FROM clause
-      this.parts.from = trimmedQuery.substring(4).trim();
-    } else if (
-      lowerQuery.startsWith("join") ||
-      lowerQuery.startsWith("left join") ||
-      lowerQuery.startsWith("right join") ||
-      lowerQuery.startsWith("inner join")
-    ) {
-      // JOIN clause
-      this.parts.joins.push(trimmedQuery);
-    } else if (lowerQuery.startsWith("where")) {
-      // WHERE clause
-      this.parts.where.push(trimmedQuery.substring(5).trim());
-    } else if (lowerQuery.startsWith("and ")) {
-      // AND condition
-      if (this.parts.where.length > 0) {
-        this.parts.where.push("AND " + trimmedQuery.substring(3).trim());
-      } else {
-        this.parts.where.push(trimmedQuery.substring(3).trim());
+    } else if (this.parts.fragment !== null) {
+      // Fragments are extended verbatim
+      this.parts.fragment = `${this.parts.fragment}\n${trimmedQuery}`.trim();
+    } else if (/^(union|intersect|except)\b/.test(lowerQuery)) {
+      // Set operation with another query
+      const operations = splitClauses(
+        trimmedQuery,
+        SET_OPERATORS,
+        {},
+        this._backslashes,
+      );
+      for (const { keyword, body } of operations) {
+        this.parseSetOperation(keyword, body);
       }
-    } else if (lowerQuery.startsWith("or ")) {
-      // OR condition
-      if (this.parts.where.length > 0) {
-        this.parts.where.push("OR " + trimmedQuery.substring(2).trim());
-      } else {
-        this.parts.where.push(trimmedQuery.substring(2).trim());
-      }
-    } else if (lowerQuery.startsWith("group by")) {
-      // GROUP BY clause
-      this.parts.groupBy.push(trimmedQuery.substring(8).trim());
-    } else if (lowerQuery.startsWith("order by")) {
-      // ORDER BY clause
-      this.parts.orderBy.push(trimmedQuery.substring(8).trim());
-    } else if (lowerQuery.startsWith("limit")) {
-      // LIMIT clause
-      this.parts.limit = trimmedQuery.substring(5).trim();
-    } else if (lowerQuery.startsWith("offset")) {
-      // OFFSET clause
-      this.parts.offset = trimmedQuery.substring(6).trim();
+    } else if (/^with\b/.test(lowerQuery)) {
+      // More common table expressions
+      this.parseWith(trimmedQuery);
+    } else if (/^(insert|update|delete)\b/.test(lowerQuery)) {
+      // A whole new mutation statement
+      this.parseInitialQuery(trimmedQuery);
     } else {
-      // If it doesn't match any specific clause, assume it's a WHERE condition
-      if (this.parts.where.length > 0) {
-        // If we already have WHERE conditions, assume this is an AND condition
-        this.parts.where.push(`AND ${trimmedQuery}`);
-      } else {
-        this.parts.where.push(trimmedQuery);
-      }
+      // One or more clauses of the current statement. Text before the first
+      // clause keyword is a condition for the WHERE (or HAVING) clause
+      this.parseClauses(trimmedQuery);
     }
   }
 
@@ -206,146 +2167,784 @@ export class SQLQuery {
    * @param query - The complete SQL query to parse
    */
   parseInitialQuery(query: string): void {
-    const lines = query
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line);
-    let currentSection: string | null = null;
-
-    // Track parentheses for nested expressions
-    let parensCount = 0;
-    let currentExpression = "";
-
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase();
-      if (lowerLine.startsWith("select")) {
-        currentSection = "select";
-        // Extract all fields after SELECT
-        const fieldsText = line.substring(6).trim();
-        // Count parentheses in the initial SELECT line
-        parensCount +=
-          (fieldsText.match(/\(/g) || []).length -
-          (fieldsText.match(/\)/g) || []).length;
-
-        // Only add if there's content after SELECT
-        if (fieldsText) {
-          if (parensCount > 0) {
-            // Start of a multi-line expression
-            currentExpression = fieldsText;
-          } else {
-            this.parts.select = [fieldsText];
-          }
-        } else {
-          this.parts.select = [];
+    // A trailing semicolon ends the statement, it isn't part of it
+    const text = stripSemicolon(query, this._backslashes);
+    // Anything that doesn't start a statement is kept as a reusable fragment,
+    // including nothing at all
+    const statement = tokenize(text, this._backslashes)
+      .filter((token) => !token.type.endsWith("comment"))
+      .map((token) => token.text)
+      .join("")
+      .trim()
+      .toLowerCase();
+    if (!/^(with|select|insert|update|delete)\b/.test(statement)) {
+      this.parts.fragment = text.trim();
+      return;
+    }
+    if (/^with\b/.test(statement)) {
+      this.parseWith(text);
+      return;
+    }
+
+    this.parts.type = /^(insert|update|delete)\b/.test(statement)
+      ? (statement.match(/^\w+/)![0] as QueryParts["type"])
+      : "select";
+    if (this.parts.type !== "select") {
+      this.parseClauses(text);
+      return;
+    }
+
+    // Queries combined by set operators
+    const [first, ...operations] = splitClauses(
+      text,
+      SET_OPERATORS,
+      {},
+      this._backslashes,
+    );
+    if (first && !first.keyword) {
+      this.parseClauses(first.text);
+    }
+    for (const { keyword, body } of operations) {
+      this.parseSetOperation(keyword, body);
+    }
+  }
+
+  /**
+   * Parses the clauses of a statement of the query's type, wherever they are
+   * in the text, and adds them to the query parts
+   *
+   * @param query - The clauses to parse
+   * @throws {SQLQueryError} If conditions, joins or grouping are added to a
+   * compound query
+   */
+  parseClauses(query: string): void {
+    // An ON CONFLICT action has its own SET and WHERE
+    const clauses = splitClauses(
+      query,
+      CLAUSE_KEYWORDS[this.parts.type],
+      { "on conflict": ["returning"] },
+      this._backslashes,
+    );
+
+    // Clauses of the first query of a compound query would be added to it
+    // rather than to the whole result
+    if (this.parts.compound.length > 0) {
+      const misplaced = clauses.find(
+        ({ keyword }) =>
+          ["", "where", "having", "group by"].includes(keyword) ||
+          JOIN_KEYWORDS.includes(keyword),
+      );
+      if (misplaced) {
+        const clause = misplaced.keyword.toUpperCase() || "conditions";
+        throw new SQLQueryError(
+          `Cannot add ${clause} to a compound query, select from it as a subquery instead`,
+        );
+      }
+    }
+
+    for (const { keyword, body, text } of clauses) {
+      if (keyword === "") {
+        // Text that isn't a clause is a condition
+        this._addConditions(body);
+      } else if (keyword === "select") {
+        this.parts.select = splitList(body, this._backslashes);
+      } else if (keyword === "from") {
+        this.parts.from = body;
+      } else if (JOIN_KEYWORDS.includes(keyword)) {
+        this._addJoin(reindent(text, this._backslashes));
+      } else if (keyword === "where" || keyword === "having") {
+        this.conditionClause = keyword;
+        this._addConditions(body);
+      } else if (keyword === "group by") {
+        this.parts.groupBy.push(...splitList(body, this._backslashes));
+      } else if (keyword === "order by") {
+        this.parts.orderBy.push(...splitList(body, this._backslashes));
+      } else if (keyword === "limit") {
+        this.parts.limit = body;
+      } else if (keyword === "offset") {
+        this.parts.offset = body;
+      } else if (LOCK_KEYWORDS.includes(keyword)) {
+        this.parts.lock = text.replace(/^for\s+/i, "");
+      } else if (keyword === "insert into") {
+        this.parts.type = "insert";
+        this.parts.insertInto = body;
+      } else if (keyword === "values" && !body) {
+        // DEFAULT VALUES
+        this.parts.insertInto = `${this.parts.insertInto} VALUES`;
+      } else if (keyword === "values") {
+        this.parts.values.push(...splitList(body, this._backslashes));
+      } else if (keyword === "on conflict") {
+        this.parts.onConflict = body;
+      } else if (keyword === "update") {
+        this.parts.type = "update";
+        this.parts.update = body;
+      } else if (keyword === "set") {
+        this.parts.set.push(...splitList(body, this._backslashes));
+      } else if (keyword === "delete from") {
+        this.parts.type = "delete";
+        this.parts.from = body;
+      } else if (keyword === "using") {
+        this.parts.using = body;
+      } else if (keyword === "returning") {
+        this.parts.returning.push(...splitList(body, this._backslashes));
+      }
+    }
+  }
+
+  /**
+   * Adds conditions to the WHERE or HAVING clause used last. The first one
+   * is joined with AND unless it starts with AND or OR itself.
+   *
+   * @param text - The conditions to add
+   * @private
+   */
+  private _addConditions(text: string): void {
+    const conditions = this.parts[this.conditionClause];
+    for (const { operator, condition } of splitConditions(
+      text,
+      this._backslashes,
+    )) {
+      if (conditions.length > 0) {
+        conditions.push(`${operator ?? "AND"} ${condition}`);
+        continue;
+      }
+      if (operator === "OR") {
+        // There is nothing to OR with, which is likely a mistake
+        const clause = this.conditionClause.toUpperCase();
+        this.buildDiagnostics.push({
+          code: "leading-or",
+          message: `The first ${clause} condition starts with OR: ${condition}`,
+          clause,
+          fragment: `OR ${condition}`,
+        });
+      }
+      conditions.push(condition);
+    }
+  }
+
+  /**
+   * Adds a JOIN clause, unless an identical join with the same alias is
+   * already there. A different join with the same alias is an error.
+   *
+   * @param text - The JOIN clause
+   * @private
+   */
+  private _addJoin(text: string): void {
+    const join = parseJoin(text, this._backslashes);
+    const name = joinName(join);
+    const existing = this.parts.joins.find(
+      (other) => name !== null && joinName(other) === name,
+    );
+    if (!existing) {
+      this.parts.joins.push(join);
+      return;
+    }
+
+    // Compare the clauses with their parameter values in place
+    const shape = (clause: JoinPart) => {
+      const values: any[] = [];
+      const text = mapPlaceholders(
+        inlineSQL(clause.text, this._backslashes),
+        (index) => {
+          values.push(this.params[index]);
+          return "?";
+        },
+        this._backslashes,
+      );
+      return { text, values };
+    };
+    const a = shape(existing);
+    const b = shape(join);
+    if (
+      a.text !== b.text ||
+      a.values.length !== b.values.length ||
+      a.values.some((value, i) => !sameValue(value, b.values[i]))
+    ) {
+      throw new SQLQueryError(
+        `Join "${join.alias ?? join.table}" is already used by a different join`,
+      );
+    }
+  }
+
+  /**
+   * Parses the query on the right of a set operator and adds it to the
+   * compound query. Its ORDER BY, LIMIT and OFFSET apply to the whole result.
+   *
+   * @param keyword - The set operator, e.g. "union all"
+   * @param query - The query text following the operator
+   */
+  parseSetOperation(keyword: string, query: string): void {
+    const operand = new SQLQuery();
+    operand.options = { ...this.options };
+    operand.parseInitialQuery(query);
+
+    if (operand.parts.orderBy.length > 0) {
+      this.parts.orderBy = operand.parts.orderBy;
+      operand.parts.orderBy = [];
+    }
+    this.parts.limit = operand.parts.limit ?? this.parts.limit;
+    this.parts.offset = operand.parts.offset ?? this.parts.offset;
+    operand.parts.limit = null;
+    operand.parts.offset = null;
+
+    this.parts.compound.push({
+      operator: keyword.toUpperCase().replace(/\s+/g, " ") as SetOperator,
+      query: operand._render(),
+    });
+  }
+
+  /**
+   * Parses a WITH clause into common table expressions, followed by the
+   * statement that uses them, if any
+   *
+   * @param query - The WITH clause, optionally followed by its statement
+   */
+  parseWith(query: string): void {
+    const clauses = splitClauses(
+      query,
+      ["with recursive", "with", "select", "insert", "update", "delete"],
+      // The CTE bodies are parenthesized, so the first top-level statement
+      // keyword starts the main statement
+      { select: [], insert: [], update: [], delete: [] },
+    );
+
+    for (const { keyword, body, text } of clauses) {
+      if (keyword.startsWith("with")) {
+        this.parts.withRecursive ||= keyword === "with recursive";
+        this.parts.with.push(...splitList(body, this._backslashes));
+      } else if (keyword) {
+        this.parseInitialQuery(text);
+      }
+    }
+  }
+
+  /**
+   * Creates a query with the given options from a template literal
+   *
+   * @typeParam T - The type of the rows the query returns
+   * @param options - Options controlling how the query is built and rendered
+   * @param strings - Template strings array
+   * @param values - Values to be interpolated
+   * @returns A new SQLQuery instance
+   */
+  static create<T = any>(
+    options: SQLQueryOptions,
+    strings: TemplateStringsArray,
+    ...values: any[]
+  ): SQLQuery<T> {
+    const query = new SQLQuery<T>();
+    query.options = { ...options };
+    if (query._skips(values)) {
+      // Skipped queries are empty
+      query.parseInitialQuery("");
+    } else if (strings.length > 0) {
+      query.parseInitialQuery(query._interpolate(strings, values));
+      query._pruneParams();
+    }
+    query._checkStrict();
+    return query;
+  }
+
+  /**
+   * Registers an encoder for parameter values, used by all queries. Encoders
+   * registered later take precedence.
+   *
+   * @param encoder - The encoder
+   * @returns A function removing the encoder again
+   */
+  static registerEncoder(encoder: ValueEncoder): () => void {
+    SQLQuery.encoders.unshift(encoder);
+    return () => {
+      SQLQuery.encoders = SQLQuery.encoders.filter((other) => other !== encoder);
+    };
+  }
+
+  /**
+   * Gets the dialect the query is rendered in
+   *
+   * @returns The configured dialect, "postgres" by default
+   */
+  get dialect(): Dialect {
+    return this.options.dialect ?? "postgres";
+  }
+
+  /**
+   * Whether the string literals of the query have backslash escapes, which
+   * is the case in MySQL
+   *
+   * @private
+   */
+  private get _backslashes(): boolean {
+    return this.dialect === "mysql";
+  }
+
+  /**
+   * Returns a copy of the query with the given options merged into its own
+   *
+   * @param options - The options to change
+   * @returns A new SQLQuery instance with the merged options
+   */
+  withOptions(options: SQLQueryOptions): SQLQuery<T> {
+    const newQuery = this._clone();
+    newQuery.options = { ...this.options, ...options };
+    newQuery._checkStrict();
+    return newQuery;
+  }
+
+  /**
+   * Renders the query with the placeholder style and parameter shape
+   * expected by the drivers of a dialect
+   *
+   * @example
+   * ```ts
+   * const { text, values } = sql`SELECT * FROM users WHERE id = ${1}`.toDialect("mysql");
+   * // text: "SELECT\n  *\nFROM users\nWHERE id = ?", values: [1]
+   * ```
+   *
+   * @param dialect - The dialect to render, defaults to the query's own
+   * @param format - How to lay out the SQL text
+   * @returns The SQL text and its parameters
+   */
+  toDialect(
+    dialect: Dialect = this.dialect,
+    format: FormatOptions = {},
+  ): RenderedQuery {
+    const text = this._render(format, dialect);
+    if (dialect === "postgres") {
+      return { text, values: this._positionalParameters(dialect) };
+    }
+
+    const sqliteStyle = this.options.sqlitePlaceholders ?? "anonymous";
+    if (
+      dialect === "mssql" ||
+      (dialect === "sqlite" && sqliteStyle === "named")
+    ) {
+      // Named placeholders bind by key, using the parameter names if any
+      const prefix = dialect === "mssql" ? "@" : ":";
+      const names: Record<number, string> = {};
+      for (const [name, index] of Object.entries(this.paramNames)) {
+        names[index] = name;
+      }
+      // Other parameters are named pN, unless a named parameter already is
+      for (const index of Object.keys(this.params).map(Number)) {
+        let name = `p${index}`;
+        for (let n = 1; Object.hasOwn(this.paramNames, name); n++) {
+          name = `p${index}_${n}`;
         }
-      } else if (lowerLine.startsWith("from")) {
-        // Complete any pending expression
-        if (currentExpression) {
-          this.parts.select.push(currentExpression);
-          currentExpression = "";
-          parensCount = 0;
+        names[index] ??= name;
+      }
+      const values: Record<string, any> = {};
+      const rendered = mapPlaceholders(
+        text,
+        (index) => {
+          const name = names[index] ?? `p${index}`;
+          values[name] = this._paramValue(index, dialect);
+          return `${prefix}${name}`;
+        },
+        this._backslashes,
+      );
+      return { text: rendered, values };
+    }
+
+    if (
+      dialect === "oracle" ||
+      (dialect === "sqlite" && sqliteStyle === "numbered")
+    ) {
+      // Numbered placeholders bind by position, just like $N
+      const prefix = dialect === "oracle" ? ":" : "?";
+      return {
+        text: mapPlaceholders(
+          text,
+          (index) => `${prefix}${index}`,
+          this._backslashes,
+        ),
+        values: this._positionalParameters(dialect),
+      };
+    }
+
+    // Anonymous placeholders bind in order of appearance
+    const values: any[] = [];
+    const rendered = mapPlaceholders(
+      text,
+      (index) => {
+        values.push(this._paramValue(index, dialect));
+        return "?";
+      },
+      this._backslashes,
+    );
+    return { text: rendered, values };
+  }
+
+  /**
+   * Converts the query object to a formatted SQL string
+   *
+   * @returns The formatted SQL query string, using the query's dialect
+   */
+  toString(): string {
+    return this.toDialect().text;
+  }
+
+  /**
+   * Converts the query to an SQL string laid out in a given style
+   *
+   * @example
+   * ```ts
+   * const query = sql`SELECT id, name FROM users WHERE active = ${true} AND age > ${18}`;
+   *
+   * query.format({ oneLine: true });
+   * // SELECT id, name FROM users WHERE active = $1 AND age > $2
+   *
+   * query.format({ align: true, keywordCase: "lower" });
+   * // select id,
+   * //        name
+   * //   from users
+   * //  where active = $1
+   * //    and age > $2
+   * ```
+   *
+   * @param options - How to lay out the query, by default like `toString()`
+   * @returns The formatted SQL query string, using the query's dialect
+   */
+  format(options: FormatOptions = {}): string {
+    return this.toDialect(this.dialect, options).text;
+  }
+
+  /**
+   * Renders the query with its parameters inlined as literals, for logging
+   * and debugging. The result starts with a comment saying it is not meant
+   * to be executed: the values are escaped, but the query should still be
+   * run with its parameters.
+   *
+   * @example
+   * ```ts
+   * sql`SELECT * FROM users WHERE name = ${"O'Brien"} AND active = ${true}`.toDebugString();
+   * // -- Debug rendering with parameters inlined, not for execution
+   * // SELECT
+   * //   *
+   * // FROM users
+   * // WHERE name = 'O''Brien'
+   * //   AND active = TRUE
+   * ```
+   *
+   * @param dialect - The dialect of the literals, defaults to the query's own
+   * @param format - How to lay out the SQL text
+   * @returns The SQL text with the parameters inlined
+   */
+  toDebugString(
+    dialect: Dialect = this.dialect,
+    format: FormatOptions = {},
+  ): string {
+    const text = mapPlaceholders(
+      this._render(format, dialect),
+      (index) => debugLiteral(this._paramValue(index, dialect), dialect),
+      this._backslashes,
+    );
+    return `-- Debug rendering with parameters inlined, not for execution\n${text}`;
+  }
+
+  /**
+   * Checks the query for likely mistakes the builder accepts silently:
+   * LIMIT or OFFSET values that aren't numbers or parameters, clauses added
+   * before their statement, unbalanced parentheses, a first WHERE or HAVING
+   * condition starting with OR, placeholders without a parameter and named
+   * parameters never bound to a value
+   *
+   * @example
+   * ```ts
+   * sql`SELECT * FROM users LIMIT ten`.validate();
+   * // [{ code: "invalid-limit", message: "LIMIT is not a number or a parameter: ten", clause: "LIMIT", fragment: "ten" }]
+   * ```
+   *
+   * @returns The problems found, if any
+   */
+  validate(): Diagnostic[] {
+    const diagnostics = [...this.buildDiagnostics];
+
+    if (this.parts.fragment !== null) {
+      // A statement following a clause, e.g. ORDER BY added before SELECT
+      const clauses = splitClauses(
+        this.parts.fragment,
+        [...CLAUSE_KEYWORDS.insert, "delete from"],
+        {},
+        this._backslashes,
+      );
+      const statements = ["select", "insert into", "delete from"];
+      const [first] = clauses;
+      const statement = clauses.find(({ keyword }) =>
+        statements.includes(keyword),
+      );
+      if (first?.keyword && !statements.includes(first.keyword) && statement) {
+        const clause = first.keyword.toUpperCase();
+        diagnostics.push({
+          code: "clause-before-statement",
+          message: `${clause} comes before the ${statement.keyword.toUpperCase()} statement`,
+          clause,
+          fragment: first.text,
+        });
+      }
+      if (!balancedParentheses(this.parts.fragment, this._backslashes)) {
+        diagnostics.push({
+          code: "unbalanced-parentheses",
+          message: `Unbalanced parentheses: ${this.parts.fragment}`,
+          fragment: this.parts.fragment,
+        });
+      }
+    } else {
+      for (const { keyword, items } of this._clauses({})) {
+        const unbalanced = items.filter(
+          (item) => !balancedParentheses(item, this._backslashes),
+        );
+        for (const item of unbalanced) {
+          diagnostics.push({
+            code: "unbalanced-parentheses",
+            message: keyword
+              ? `Unbalanced parentheses in ${keyword}: ${item}`
+              : `Unbalanced parentheses: ${item}`,
+            ...(keyword ? { clause: keyword } : {}),
+            fragment: item,
+          });
         }
+      }
 
-        currentSection = "from";
-        this.parts.from = line.substring(4).trim();
-      } else if (
-        lowerLine.startsWith("join") ||
-        lowerLine.startsWith("left join") ||
-        lowerLine.startsWith("right join") ||
-        lowerLine.startsWith("inner join")
+      // MySQL also takes LIMIT offset, count
+      const { limit, offset } = this.parts;
+      if (
+        limit !== null &&
+        splitList(limit, this._backslashes).some((item) =>
+          nonNumericLiteral(item, this._backslashes),
+        )
       ) {
-        currentSection = "joins";
-        this.parts.joins.push(line);
-      } else if (lowerLine.startsWith("where")) {
-        currentSection = "where";
-        this.parts.where.push(line.substring(5).trim());
-      } else if (lowerLine.startsWith("group by")) {
-        currentSection = "groupBy";
-        this.parts.groupBy.push(line.substring(8).trim());
-      } else if (lowerLine.startsWith("order by")) {
-        currentSection = "orderBy";
-        this.parts.orderBy.push(line.substring(8).trim());
-      } else if (lowerLine.startsWith("limit")) {
-        this.parts.limit = line.substring(5).trim();
-      } else if (lowerLine.startsWith("offset")) {
-        this.parts.offset = line.substring(6).trim();
-      } else if (currentSection) {
-        // Continuation of previous section
-        if (currentSection === "select") {
-          // Update parentheses count for the current line
-          const openParens = (line.match(/\(/g) || []).length;
-          const closeParens = (line.match(/\)/g) || []).length;
-          parensCount += openParens - closeParens;
-
-          if (parensCount > 0 || currentExpression) {
-            // We're inside a nested function expression
-            currentExpression += " " + line;
-
-            if (parensCount === 0 && currentExpression) {
-              // The expression is complete, add it to select parts
-              // Remove any trailing commas to avoid duplication
-              const trimmedExpr = currentExpression.trim().replace(/,\s*$/, "");
-              this.parts.select.push(trimmedExpr);
-              currentExpression = "";
-            }
-          } else {
-            // Not in a nested expression, handle as a regular field
-            if (line !== "," && !line.match(/^\s*,\s*$/)) {
-              // Clean up any leading commas
-              const cleanedLine = line.replace(/^,\s*/, "");
-              // Clean up any trailing commas
-              const finalLine = cleanedLine.replace(/,\s*$/, "");
-              if (finalLine) {
-                this.parts.select.push(finalLine);
-              }
-            }
-          }
-        } else if (currentSection === "where") {
-          this.parts.where.push(line);
-        } else if (currentSection === "groupBy") {
-          this.parts.groupBy.push(line);
-        } else if (currentSection === "orderBy") {
-          this.parts.orderBy.push(line);
+        diagnostics.push({
+          code: "invalid-limit",
+          message: `LIMIT is not a number or a parameter: ${limit}`,
+          clause: "LIMIT",
+          fragment: limit,
+        });
+      }
+      if (
+        offset !== null &&
+        nonNumericLiteral(offset.replace(/\s+rows?$/i, ""), this._backslashes)
+      ) {
+        diagnostics.push({
+          code: "invalid-offset",
+          message: `OFFSET is not a number or a parameter: ${offset}`,
+          clause: "OFFSET",
+          fragment: offset,
+        });
+      }
+    }
+
+    // Placeholders written into the SQL text rather than interpolated
+    const missing = new Set<number>();
+    mapPlaceholders(
+      this._render(),
+      (index) => {
+        if (!(index in this.params)) {
+          missing.add(index);
         }
+        return "";
+      },
+      this._backslashes,
+    );
+    for (const index of missing) {
+      diagnostics.push({
+        code: "missing-parameter",
+        message: `Placeholder $${index} has no parameter`,
+        fragment: `$${index}`,
+      });
+    }
+
+    // Named parameters declared without a value and never bound
+    for (const [name, index] of Object.entries(this.paramNames)) {
+      if (this.params[index] === undefined) {
+        diagnostics.push({
+          code: "unbound-parameter",
+          message: `Parameter "${name}" is never bound to a value`,
+          fragment: `$${index}`,
+        });
       }
     }
-
-    // Process any remaining expression
-    if (currentExpression) {
-      // Remove any trailing commas to avoid duplication
-      const trimmedExpr = currentExpression.trim().replace(/,\s*$/, "");
-      this.parts.select.push(trimmedExpr);
+    return diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      message: quoteIdentifiers(
+        diagnostic.message,
+        this.dialect,
+        this._backslashes,
+      ),
+      ...(diagnostic.fragment === undefined
+        ? {}
+        : {
+            fragment: quoteIdentifiers(
+              diagnostic.fragment,
+              this.dialect,
+              this._backslashes,
+            ),
+          }),
+    }));
+  }
+
+  /**
+   * Throws the problems found by `validate()` in strict mode
+   *
+   * @throws {SQLQueryError} If the query has problems
+   * @private
+   */
+  private _checkStrict(): void {
+    if (!this.options.strict) {
+      return;
+    }
+    // Named parameters are bound after the query is built
+    const diagnostics = this.validate().filter(
+      (diagnostic) => diagnostic.code !== "unbound-parameter",
+    );
+    if (diagnostics.length > 0) {
+      throw new SQLQueryError(
+        diagnostics.map((diagnostic) => diagnostic.message).join("\n"),
+      );
+    }
+  }
+
+  /**
+   * Renders the query with PostgreSQL-style `$N` placeholders, the internal
+   * representation every dialect is derived from
+   *
+   * @param options - How to lay out the query
+   * @param dialect - The dialect to quote identifiers and write parameter
+   * casts in, if any
+   * @returns The formatted SQL query string
+   * @private
+   */
+  private _render(options: FormatOptions = {}, dialect?: Dialect): string {
+    let text =
+      this.parts.fragment !== null
+        ? this.parts.fragment
+        : layoutClauses(this._clauses(options), options, this._backslashes);
+    if (dialect) {
+      text = quoteIdentifiers(text, dialect, this._backslashes);
+      text = mapPlaceholders(
+        text,
+        (index) => {
+          const cast = this.paramEncodings[index]?.[dialect]?.cast;
+          if (!cast) {
+            return `$${index}`;
+          }
+          return dialect === "postgres"
+            ? `$${index}::${cast}`
+            : `CAST($${index} AS ${cast})`;
+        },
+        this._backslashes,
+      );
+    }
+    if (options.keywordCase && options.keywordCase !== "preserve") {
+      text = recaseKeywords(text, options.keywordCase, this._backslashes);
     }
+    return options.oneLine ? inlineSQL(text, this._backslashes) : text;
   }
 
   /**
-   * Converts the query object to a formatted SQL string
+   * Lists the clauses of the query in the order they are rendered
    *
-   * @returns The formatted SQL query string
+   * @param options - How to lay out the queries of a compound query
+   * @returns The clauses, ready to be laid out
+   * @private
    */
-  toString(): string {
-    const parts: string[] = [];
+  private _clauses(options: FormatOptions): RenderedClause[] {
+    const clauses: RenderedClause[] = [];
+    const { type } = this.parts;
+    // WITH
+    if (this.parts.with.length > 0) {
+      clauses.push({
+        keyword: this.parts.withRecursive ? "WITH RECURSIVE" : "WITH",
+        layout: "stacked",
+        items: this.parts.with,
+      });
+    }
+    // INSERT, UPDATE or DELETE
+    if (type === "insert") {
+      clauses.push({
+        keyword: "INSERT INTO",
+        layout: "text",
+        items: [this.parts.insertInto ?? ""],
+      });
+    } else if (type === "update") {
+      clauses.push({
+        keyword: "UPDATE",
+        layout: "text",
+        items: [this.parts.update ?? ""],
+      });
+      if (this.parts.set.length > 0) {
+        clauses.push({ keyword: "SET", layout: "block", items: this.parts.set });
+      }
+    } else if (type === "delete") {
+      clauses.push({
+        keyword: "DELETE FROM",
+        layout: "text",
+        items: [this.parts.from ?? ""],
+      });
+      if (this.parts.using) {
+        clauses.push({
+          keyword: "USING",
+          layout: "text",
+          items: [this.parts.using],
+        });
+      }
+    }
+    // VALUES
+    if (this.parts.values.length > 0) {
+      clauses.push({
+        keyword: "VALUES",
+        layout: "block",
+        items: this.parts.values,
+      });
+    }
     // SELECT
-    if (this.parts.select.length > 0) {
+    if (type !== "select") {
+      // Only an INSERT ... SELECT has a select list
+      if (this.parts.select.length > 0) {
+        clauses.push({
+          keyword: "SELECT",
+          layout: "block",
+          items: this.parts.select,
+        });
+      }
+    } else if (this.parts.select.length > 0) {
       // Make sure none of the select parts have trailing commas
       const cleanedSelectParts = this.parts.select.map((part) =>
         part.replace(/,\s*$/, ""),
       );
-      parts.push(`SELECT\n  ${cleanedSelectParts.join(",\n  ")}`);
+      clauses.push({
+        keyword: "SELECT",
+        layout: "block",
+        items: cleanedSelectParts,
+      });
     } else {
-      parts.push("SELECT *");
+      clauses.push({ keyword: "SELECT", layout: "text", items: ["*"] });
     }
     // FROM
-    if (this.parts.from) {
-      parts.push(`FROM ${this.parts.from}`);
+    if (this.parts.from && type !== "delete") {
+      clauses.push({ keyword: "FROM", layout: "text", items: [this.parts.from] });
     }
-    // JOINs
-    if (this.parts.joins.length > 0) {
-      parts.push(this.parts.joins.join("\n"));
+    // JOINs, keeping their keywords as written
+    for (const join of this.parts.joins) {
+      const [{ body, text }] = splitClauses(
+        join.text,
+        JOIN_KEYWORDS,
+        {},
+        this._backslashes,
+      );
+      clauses.push({
+        keyword: text.slice(0, text.length - body.length).trim(),
+        layout: "text",
+        items: [body],
+      });
     }
     // WHERE
     if (this.parts.where.length > 0) {
-      parts.push(`WHERE ${this.parts.where.join("\n  ")}`);
+      clauses.push({
+        keyword: "WHERE",
+        layout: "conditions",
+        items: this.parts.where,
+      });
     }
     // GROUP BY
     if (this.parts.groupBy.length > 0) {
@@ -354,9 +2953,31 @@ export class SQLQuery {
         (part) => part && !part.includes(":undefined") && part !== ",",
       );
       if (validGroupBy.length > 0) {
-        parts.push(`GROUP BY ${validGroupBy.join(", ")}`);
+        clauses.push({
+          keyword: "GROUP BY",
+          layout: "inline",
+          items: validGroupBy,
+        });
       }
     }
+    // HAVING
+    if (this.parts.having.length > 0) {
+      clauses.push({
+        keyword: "HAVING",
+        layout: "conditions",
+        items: this.parts.having,
+      });
+    }
+    // UNION, INTERSECT and EXCEPT, laying out the other queries alike
+    for (const { operator, query } of this.parts.compound) {
+      const operand = new SQLQuery();
+      operand.options = { ...this.options };
+      operand.parseInitialQuery(query);
+      clauses.push(
+        { keyword: operator, layout: "text", items: [] },
+        { keyword: "", layout: "text", items: [operand._render(options)] },
+      );
+    }
     // ORDER BY
     if (this.parts.orderBy.length > 0) {
       // Filter out any undefined or empty strings
@@ -364,22 +2985,147 @@ export class SQLQuery {
         (part) => part && !part.includes(":undefined") && part !== ",",
       );
       if (validOrderBy.length > 0) {
-        parts.push(`ORDER BY ${validOrderBy.join(", ")}`);
+        clauses.push({
+          keyword: "ORDER BY",
+          layout: "inline",
+          items: validOrderBy,
+        });
       }
     }
     // LIMIT
     if (this.parts.limit !== null && !this.parts.limit.includes(":undefined")) {
-      parts.push(`LIMIT ${this.parts.limit}`);
+      clauses.push({ keyword: "LIMIT", layout: "text", items: [this.parts.limit] });
     }
     // OFFSET
     if (
       this.parts.offset !== null &&
       !this.parts.offset.includes(":undefined")
     ) {
-      parts.push(`OFFSET ${this.parts.offset}`);
+      clauses.push({
+        keyword: "OFFSET",
+        layout: "text",
+        items: [this.parts.offset],
+      });
+    }
+    // FOR UPDATE, FOR SHARE, etc.
+    if (this.parts.lock !== null) {
+      clauses.push({ keyword: "FOR", layout: "text", items: [this.parts.lock] });
+    }
+    // ON CONFLICT
+    if (this.parts.onConflict) {
+      clauses.push({
+        keyword: "ON CONFLICT",
+        layout: "text",
+        items: [this.parts.onConflict],
+      });
+    }
+    // RETURNING
+    if (this.parts.returning.length > 0) {
+      clauses.push({
+        keyword: "RETURNING",
+        layout: "inline",
+        items: this.parts.returning,
+      });
+    }
+    return clauses;
+  }
+
+  /**
+   * Combines this query with another one using UNION, removing duplicate
+   * rows. ORDER BY, LIMIT and OFFSET of the result apply to the whole
+   * compound query, so this query can't have them itself; the other one is
+   * parenthesized if it does.
+   *
+   * @example
+   * ```ts
+   * const query = sql`SELECT id FROM users WHERE active = ${true}`
+   *   .union(sql`SELECT id FROM admins`)
+   *   .sql`ORDER BY id`;
+   * ```
+   *
+   * @param query - The query to combine with
+   * @returns A new SQLQuery instance with the compound query
+   */
+  union(query: SQLQuery<T>): SQLQuery<T> {
+    return this._setOperation("UNION", query);
+  }
+
+  /**
+   * Combines this query with another one using UNION ALL, keeping duplicate
+   * rows
+   *
+   * @param query - The query to combine with
+   * @returns A new SQLQuery instance with the compound query
+   */
+  unionAll(query: SQLQuery<T>): SQLQuery<T> {
+    return this._setOperation("UNION ALL", query);
+  }
+
+  /**
+   * Combines this query with another one using INTERSECT, keeping the rows
+   * returned by both
+   *
+   * @param query - The query to combine with
+   * @returns A new SQLQuery instance with the compound query
+   */
+  intersect(query: SQLQuery<T>): SQLQuery<T> {
+    return this._setOperation("INTERSECT", query);
+  }
+
+  /**
+   * Combines this query with another one using EXCEPT, keeping the rows not
+   * returned by the other query
+   *
+   * @param query - The query to combine with
+   * @returns A new SQLQuery instance with the compound query
+   */
+  except(query: SQLQuery<T>): SQLQuery<T> {
+    return this._setOperation("EXCEPT", query);
+  }
+
+  /**
+   * Adds another query to the compound query, merging its parameters
+   *
+   * @param operator - The set operator
+   * @param query - The query to combine with
+   * @returns A new SQLQuery instance with the compound query
+   * @throws {SQLQueryError} If this query has ORDER BY, LIMIT or OFFSET
+   * @private
+   */
+  private _setOperation(
+    operator: SetOperator,
+    query: SQLQuery<T>,
+  ): SQLQuery<T> {
+    // The ORDER BY, LIMIT and OFFSET of this query would apply to the whole
+    // compound query, changing which rows it returns
+    if (
+      this.parts.orderBy.length > 0 ||
+      this.parts.limit !== null ||
+      this.parts.offset !== null
+    ) {
+      throw new SQLQueryError(
+        `Cannot use ${operator} on a query with ORDER BY, LIMIT or OFFSET, add them to the result instead`,
+      );
     }
-    return parts.join("\n");
+    const newQuery = this._clone();
+    const { parts } = query;
+    // Queries with their own ordering, CTEs or set operations must be
+    // parenthesized to keep them apart from the compound query
+    const parenthesize =
+      parts.with.length > 0 ||
+      parts.compound.length > 0 ||
+      parts.orderBy.length > 0 ||
+      parts.limit !== null ||
+      parts.offset !== null;
+    const text = newQuery._embed(query, parenthesize);
+    newQuery.parts.compound.push({
+      operator,
+      query: parenthesize ? `(${text})` : text,
+    });
+    newQuery._checkStrict();
+    return newQuery;
   }
+
   /**
    * Gets the SQL query string
    *
@@ -390,12 +3136,65 @@ export class SQLQuery {
   }
 
   /**
-   * Gets the parameters for the parameterized query as an array,
-   * compatible with node-postgres expectations
+   * Gets the parameters for the parameterized query as an array, in the
+   * order expected by the query's dialect (node-postgres by default)
    *
    * @returns The query parameters as an array
    */
   get parameters(): any[] {
+    const { values } = this.toDialect();
+    return Array.isArray(values) ? values : Object.values(values);
+  }
+
+  /**
+   * Gets the values of the named parameters
+   *
+   * @returns The named parameter values, by name
+   */
+  get parametersByName(): Record<string, any> {
+    const values: Record<string, any> = {};
+    for (const [name, index] of Object.entries(this.paramNames)) {
+      values[name] = this._paramValue(index, this.dialect);
+    }
+    return values;
+  }
+
+  /**
+   * Returns a copy of the query with new values for named parameters
+   *
+   * @example
+   * ```ts
+   * const byTenant = sql`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", undefined)}`;
+   * const query = byTenant.bind({ tenantId: 42 });
+   * ```
+   *
+   * @param values - The new values, by parameter name
+   * @returns A new SQLQuery instance with the values bound
+   */
+  bind(values: Record<string, any>): SQLQuery<T> {
+    const newQuery = this._clone();
+    for (const [name, value] of Object.entries(values)) {
+      if (!Object.hasOwn(this.paramNames, name)) {
+        throw new SQLQueryError(`Unknown parameter "${name}"`);
+      }
+      const index = this.paramNames[name];
+      const encoded =
+        value === undefined ? { value, encodings: {} } : newQuery._encode(value);
+      newQuery.params[index] = encoded.value;
+      newQuery._setEncodings(index, encoded.encodings);
+    }
+    newQuery._checkStrict();
+    return newQuery;
+  }
+
+  /**
+   * Converts the numbered parameters to an array where `$N` is at index N - 1
+   *
+   * @param dialect - The dialect the values are encoded for
+   * @returns The query parameters as an array
+   * @private
+   */
+  private _positionalParameters(dialect: Dialect): any[] {
     // Check if there are any parameters
     if (Object.keys(this.params).length === 0) {
       return [];
@@ -405,7 +3204,7 @@ export class SQLQuery {
     const maxParam = Math.max(...Object.keys(this.params).map(Number));
     const paramsArray = new Array(maxParam);
     for (let i = 1; i <= maxParam; i++) {
-      paramsArray[i - 1] = this.params[i];
+      paramsArray[i - 1] = this._paramValue(i, dialect);
     }
     return paramsArray;
   }
@@ -417,23 +3216,422 @@ export class SQLQuery {
    * @param values - Values to be interpolated
    * @returns A new SQLQuery instance with the added fragment
    */
-  sql(strings: TemplateStringsArray, ...values: any[]): SQLQuery {
-    // Create a new copy of the query to avoid mutating the original
-    const newQuery = new SQLQuery();
+  sql(strings: TemplateStringsArray, ...values: any[]): SQLQuery<T> {
+    // Fragments with missing optional values are skipped
+    if (this._skips(values)) {
+      return this;
+    }
 
-    // Copy all parts and parameters from the current query
-    newQuery.parts = structuredClone(this.parts);
-    newQuery.params = { ...this.params };
-    newQuery.paramCounter = this.paramCounter;
+    // Create a new copy of the query to avoid mutating the original
+    const newQuery = this._clone();
 
     // Parse and add the new fragment
     const fragment = newQuery._interpolate(strings, values);
     newQuery.parseQuery(fragment);
+    newQuery._pruneParams();
+    newQuery._checkStrict();
+
+    return newQuery;
+  }
+
+  /**
+   * Adds a query fragment only if a condition holds, e.g. for optional
+   * filters
+   *
+   * @example
+   * ```ts
+   * const query = sql`SELECT * FROM orders`
+   *   .sqlIf(status !== "all")`WHERE status = ${status}`;
+   * ```
+   *
+   * @param condition - Whether to add the fragment
+   * @returns A template tag adding the fragment, like `sql()`
+   */
+  sqlIf(
+    condition: unknown,
+  ): (strings: TemplateStringsArray, ...values: any[]) => SQLQuery<T> {
+    return (strings, ...values) =>
+      condition ? this.sql(strings, ...values) : this;
+  }
+
+  /**
+   * Checks whether the query has a join with the given alias, or with the
+   * given table name for joins without an alias
+   *
+   * @param alias - The alias or table name, e.g. "owner"
+   * @returns True if such a join exists
+   */
+  hasJoin(alias: string): boolean {
+    const name = normalizeName(alias);
+    return this.parts.joins.some((join) => joinName(join) === name);
+  }
+
+  /**
+   * Adds a JOIN clause unless the query already has a join with its alias,
+   * so independent helpers can each make sure the join they need is there
+   *
+   * @example
+   * ```ts
+   * const byOwner = (query: SQLQuery, name: string) =>
+   *   query.ensureJoin`LEFT JOIN users owner ON owner.id = p.owner_id`
+   *     .sql`AND owner.name = ${name}`;
+   * ```
+   *
+   * @param strings - Template strings array
+   * @param values - Values to be interpolated
+   * @returns A new SQLQuery instance with the join
+   */
+  ensureJoin(strings: TemplateStringsArray, ...values: any[]): SQLQuery<T> {
+    const newQuery = this._clone();
+    const text = newQuery._interpolate(strings, values);
+    const backslashes = newQuery._backslashes;
+    const clauses = splitClauses(text, JOIN_KEYWORDS, {}, backslashes);
+    if (clauses.length !== 1 || !clauses[0].keyword) {
+      throw new SQLQueryError(`Expected a single JOIN clause: ${text.trim()}`);
+    }
+
+    const join = parseJoin(
+      reindent(clauses[0].text, backslashes),
+      backslashes,
+    );
+    const name = joinName(join);
+    if (name === null) {
+      throw new SQLQueryError(
+        `Expected a join with an alias or table name: ${join.text}`,
+      );
+    }
+    if (!newQuery.hasJoin(name)) {
+      newQuery.parts.joins.push(join);
+    }
+    newQuery._pruneParams();
+    newQuery._checkStrict();
+    return newQuery;
+  }
+
+  /**
+   * Creates a copy of the query with a change applied to its parts, dropping
+   * the parameters the change left unused
+   *
+   * @param change - Changes the parts of the copy
+   * @returns A new SQLQuery instance
+   * @private
+   */
+  private _derive(change: (query: SQLQuery<T>) => void): SQLQuery<T> {
+    const newQuery = this._clone();
+    change(newQuery);
+    newQuery._pruneParams();
+    newQuery._checkStrict();
+    return newQuery;
+  }
+
+  /**
+   * Removes the ORDER BY clause
+   *
+   * @returns A new SQLQuery instance without ORDER BY
+   */
+  withoutOrderBy(): SQLQuery<T> {
+    return this._derive((query) => {
+      query.parts.orderBy = [];
+    });
+  }
+
+  /**
+   * Removes the LIMIT clause
+   *
+   * @returns A new SQLQuery instance without LIMIT
+   */
+  withoutLimit(): SQLQuery<T> {
+    return this._derive((query) => {
+      query.parts.limit = null;
+    });
+  }
+
+  /**
+   * Removes the OFFSET clause
+   *
+   * @returns A new SQLQuery instance without OFFSET
+   */
+  withoutOffset(): SQLQuery<T> {
+    return this._derive((query) => {
+      query.parts.offset = null;
+    });
+  }
+
+  /**
+   * Removes all WHERE conditions
+   *
+   * @returns A new SQLQuery instance without WHERE
+   */
+  clearWhere(): SQLQuery<T> {
+    return this._derive((query) => {
+      query.parts.where = [];
+      query.conditionClause = "where";
+      // Problems found in the removed conditions went with them
+      query.buildDiagnostics = query.buildDiagnostics.filter(
+        (diagnostic) => diagnostic.clause !== "WHERE",
+      );
+    });
+  }
+
+  /**
+   * Replaces the select list
+   *
+   * @example
+   * ```ts
+   * const ids = query.replaceSelect`id`;
+   * ```
+   *
+   * @typeParam R - The type of the rows the new select list returns
+   * @param strings - Template strings array
+   * @param values - Values to be interpolated
+   * @returns A new SQLQuery instance with the new select list
+   */
+  replaceSelect<R = any>(
+    strings: TemplateStringsArray,
+    ...values: any[]
+  ): SQLQuery<R> {
+    return this._derive((query) => {
+      query.parts.select = splitList(
+        query._interpolate(strings, values),
+        query._backslashes,
+      );
+    }) as SQLQuery<any>;
+  }
+
+  /**
+   * Derives a query counting the rows this query returns, regardless of
+   * pagination. ORDER BY, LIMIT and OFFSET are dropped, and queries with
+   * GROUP BY, HAVING, DISTINCT or set operators are counted as a subquery.
+   *
+   * @example
+   * ```ts
+   * const page = sql`SELECT * FROM users WHERE active = ${true} LIMIT ${20}`;
+   * const total = page.toCountQuery();
+   * // SELECT COUNT(*) FROM users WHERE active = $1
+   * ```
+   *
+   * @returns A new SQLQuery instance selecting COUNT(*)
+   */
+  toCountQuery(): SQLQuery {
+    if (this.parts.type !== "select" || this.parts.fragment !== null) {
+      throw new SQLQueryError("Only SELECT queries can be counted");
+    }
+
+    const base = this._derive((query) => {
+      query.parts.orderBy = [];
+      query.parts.limit = null;
+      query.parts.offset = null;
+      query.parts.lock = null;
+    });
+    const { select, groupBy, having, compound } = base.parts;
+    if (
+      groupBy.length === 0 &&
+      having.length === 0 &&
+      compound.length === 0 &&
+      !/^distinct\b/i.test(select[0] ?? "")
+    ) {
+      return base._derive((query) => {
+        query.parts.select = ["COUNT(*)"];
+      });
+    }
+
+    // Count the rows of the whole query
+    const count = new SQLQuery();
+    count.options = { ...this.options };
+    count.parts.select = ["COUNT(*)"];
+    count.parts.from = `(${count._embed(base)}) AS count_query`;
+    count._checkStrict();
+    return count;
+  }
+
+  /**
+   * Derives the next page of the query with keyset pagination: rows after
+   * the cursor in ORDER BY order, instead of an OFFSET that scans all the
+   * rows before. The sort keys should end with a unique column. Keys are
+   * assumed to be NOT NULL unless their ORDER BY item has a NULLS FIRST or
+   * NULLS LAST placement, or the cursor has a NULL for them.
+   *
+   * @example
+   * ```ts
+   * const query = sql`SELECT * FROM posts`.sql`ORDER BY created_at DESC, id DESC`;
+   * const first = query.paginateAfter(null, { limit: 20 });
+   * const next = query.paginateAfter(first.cursorFor(rows.at(-1)), { limit: 20 });
+   * ```
+   *
+   * @param cursor - The sort key values of the last row of the previous page,
+   * as an array or a cursor string, or null for the first page
+   * @param options - The ORDER BY items and the page size
+   * @returns A new SQLQuery instance for the page
+   * @throws {SQLQueryError} If there is no ORDER BY or the cursor doesn't match it
+   */
+  paginateAfter(
+    cursor: any[] | string | null | undefined,
+    options: PaginationOptions = {},
+  ): SQLQuery<T> {
+    if (this.parts.type !== "select" || this.parts.compound.length > 0) {
+      throw new SQLQueryError("Only simple SELECT queries can be paginated");
+    }
+    const orderBy = options.orderBy ?? this.parts.orderBy;
+    if (orderBy.length === 0) {
+      throw new SQLQueryError("Keyset pagination needs an ORDER BY");
+    }
 
+    const newQuery = this._clone();
+    newQuery.parts.orderBy = [...orderBy];
+    newQuery.parts.offset = null;
+    if (options.limit !== undefined) {
+      newQuery.parts.limit = newQuery._bind(options.limit);
+    }
+    if (cursor !== null && cursor !== undefined) {
+      const values = typeof cursor === "string" ? decodeCursor(cursor) : cursor;
+      const keys = orderBy.map(parseSortKey);
+      if (values.length !== keys.length) {
+        throw new SQLQueryError(
+          `The cursor has ${values.length} values for ${keys.length} sort keys`,
+        );
+      }
+      // AND binds tighter than OR, so existing OR conditions are grouped
+      // for the predicate to apply to all of them
+      if (newQuery.parts.where.some((condition) => /^OR\b/.test(condition))) {
+        newQuery.parts.where = [`(${newQuery.parts.where.join(" ")})`];
+      }
+      const conditionClause = newQuery.conditionClause;
+      newQuery.conditionClause = "where";
+      newQuery._addConditions(newQuery._keysetPredicate(keys, values));
+      newQuery.conditionClause = conditionClause;
+    }
+    newQuery._pruneParams();
+    newQuery._checkStrict();
     return newQuery;
   }
+
+  /**
+   * Builds the condition selecting the rows after a cursor
+   *
+   * @param keys - The sort keys
+   * @param values - The cursor values of the sort keys
+   * @returns The condition, parenthesized if it has several branches
+   * @private
+   */
+  private _keysetPredicate(keys: SortKey[], values: any[]): string {
+    // Where NULLs sort when no placement is given
+    const nullsLargest = ["postgres", "oracle"].includes(this.dialect);
+    const params = values.map((value) =>
+      value === null || value === undefined ? null : this._bind(value),
+    );
+    const nullable = keys.map((key, i) => key.nulls !== null || !params[i]);
+
+    // A row comparison, when all keys are sorted the same way
+    if (
+      keys.every((key) => key.descending === keys[0].descending) &&
+      !nullable.includes(true) &&
+      ["postgres", "mysql", "sqlite"].includes(this.dialect)
+    ) {
+      const operator = keys[0].descending ? "<" : ">";
+      if (keys.length === 1) {
+        return `${keys[0].expression} ${operator} ${params[0]}`;
+      }
+      const expressions = keys.map((key) => key.expression).join(", ");
+      return `(${expressions}) ${operator} (${params.join(", ")})`;
+    }
+
+    // Otherwise rows tied on the first keys and after the cursor on the next
+    const branches: string[] = [];
+    keys.forEach((key, i) => {
+      const { expression, descending } = key;
+      const nullsFirst = key.nulls
+        ? key.nulls === "first"
+        : nullsLargest === descending;
+      let after: string | null;
+      if (params[i] === null) {
+        after = nullsFirst ? `${expression} IS NOT NULL` : null;
+      } else {
+        after = `${expression} ${descending ? "<" : ">"} ${params[i]}`;
+        if (nullable[i] && !nullsFirst) {
+          after = `(${after} OR ${expression} IS NULL)`;
+        }
+      }
+      if (after !== null) {
+        const ties = keys
+          .slice(0, i)
+          .map((tied, j) =>
+            params[j] === null
+              ? `${tied.expression} IS NULL`
+              : `${tied.expression} = ${params[j]}`,
+          );
+        const terms = [...ties, after];
+        branches.push(
+          terms.length > 1 ? `(${terms.join(" AND ")})` : terms[0],
+        );
+      }
+    });
+    if (branches.length === 0) {
+      return "1 = 0";
+    }
+    return branches.length > 1 ? `(${branches.join(" OR ")})` : branches[0];
+  }
+
+  /**
+   * Encodes the cursor of a result row, to get the page after it with
+   * `paginateAfter`. The row values are looked up by the column names of the
+   * ORDER BY expressions, e.g. `created_at` for `p.created_at DESC`.
+   *
+   * @param row - A row returned by the query
+   * @param options - The ORDER BY items, instead of the query's own
+   * @returns The cursor string
+   * @throws {SQLQueryError} If the row has no value for a sort key
+   */
+  cursorFor(
+    row: Record<string, any>,
+    options: Pick<PaginationOptions, "orderBy"> = {},
+  ): string {
+    const keys = (options.orderBy ?? this.parts.orderBy).map(parseSortKey);
+    return encodeCursor(
+      keys.map(({ expression }) => {
+        const column = expression.match(/("[^"]+"|`[^`]+`|\w+)$/)?.[1] ?? "";
+        const name = column.replace(/^["`](.*)["`]$/, "$1");
+        if (!(name in row)) {
+          throw new SQLQueryError(`The row has no value for "${expression}"`);
+        }
+        return row[name];
+      }),
+    );
+  }
+
+  /**
+   * Replaces the FROM clause, keeping the joins
+   *
+   * @example
+   * ```ts
+   * const archived = query.replaceFrom`archived_users`;
+   * ```
+   *
+   * @param strings - Template strings array
+   * @param values - Values to be interpolated
+   * @returns A new SQLQuery instance with the new FROM clause
+   */
+  replaceFrom(strings: TemplateStringsArray, ...values: any[]): SQLQuery<T> {
+    return this._derive((query) => {
+      query.parts.from = query._interpolate(strings, values).trim();
+    });
+  }
 }
 
+/**
+ * The type of the rows a query returns, for typing the results of a driver
+ *
+ * @example
+ * ```ts
+ * const query = sql<{ id: number; name: string }>`SELECT id, name FROM users`;
+ *
+ * async function all<Q extends SQLQuery>(query: Q): Promise<RowOf<Q>[]> {
+ *   const { text, values } = query.toDialect("postgres");
+ *   return (await client.query(text, values)).rows;
+ * }
+ * ```
+ */
+export type RowOf<Q> = Q extends SQLQuery<infer T> ? T : never;
+
 /**
  * Creates a SQL query using template literals with automatic parameter handling
  *
@@ -455,8 +3653,8 @@ export class SQLQuery {
  *   query = query.sql`AND (name ILIKE ${'%' + searchTerm + '%'} OR email ILIKE ${'%' + searchTerm + '%'})`;
  * }
  *
- * // Add sorting and pagination
- * query = query.sql`ORDER BY ${sortColumn} ${sortDirection}`;
+ * // Add sorting and pagination (identifiers are quoted, not parameterized)
+ * query = query.sql`ORDER BY ${ident(sortColumn)} DESC`;
  * query = query.sql`LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}`;
  * ```
  *
@@ -464,6 +3662,170 @@ export class SQLQuery {
  * @param values - Values to be interpolated and converted to parameters
  * @returns An SQLQuery instance
  */
-export function sql(strings: TemplateStringsArray, ...values: any[]): SQLQuery {
-  return new SQLQuery(strings, ...values);
+export const sql: SqlTag = createTag({});
+
+/**
+ * A template tag creating SQL queries, with helpers for interpolating values
+ * that aren't parameters
+ */
+export interface SqlTag {
+  <T = any>(strings: TemplateStringsArray, ...values: any[]): SQLQuery<T>;
+  /** Creates an identifier quoted in the query's dialect, see `ident()` */
+  identifier: typeof ident;
+  /** Marks SQL text to be interpolated verbatim, see `raw()` */
+  raw: typeof raw;
+  /** Joins conditions with AND, see `and()` */
+  and: typeof and;
+  /** Joins conditions with OR, see `or()` */
+  or: typeof or;
+  /** Negates a condition, see `not()` */
+  not: typeof not;
+  /** Marks a value whose fragment is skipped when it is missing, see `optional()` */
+  optional: typeof optional;
+}
+
+/**
+ * Creates a template tag for queries with the given options
+ *
+ * @param options - Options applied to every query created by the tag
+ * @returns The template tag
+ * @private
+ */
+function createTag(options: SQLQueryOptions): SqlTag {
+  return Object.assign(
+    <T = any>(strings: TemplateStringsArray, ...values: any[]) =>
+      SQLQuery.create<T>(options, strings, ...values),
+    { identifier: ident, raw, and, or, not, optional },
+  );
+}
+
+/**
+ * Creates an `sql` template tag whose queries use the given options
+ *
+ * @example
+ * ```ts
+ * const mysql = createSql({ dialect: "mysql" });
+ *
+ * const query = mysql`SELECT * FROM users WHERE id = ${userId}`;
+ * // query.toString(): "SELECT\n  *\nFROM users\nWHERE id = ?"
+ * ```
+ *
+ * @param options - Options applied to every query created by the tag
+ * @returns A template tag that works like `sql`
+ */
+export function createSql(options: SQLQueryOptions): SqlTag {
+  return createTag(options);
+}
+
+/**
+ * Parses SQL text holding queries named by `-- name:` comments, such as a
+ * `.sql` file. `:name` and `${name}` placeholders become named parameters
+ * without a value, to be set with `bind`.
+ *
+ * @example
+ * ```ts
+ * const queries = parseQueries(`
+ *   -- name: findUser
+ *   SELECT * FROM users WHERE id = :id;
+ *
+ *   -- name: listProjects
+ *   SELECT * FROM projects WHERE owner_id = \${ownerId}
+ * `);
+ *
+ * const query = queries.findUser.bind({ id: 42 }).sql`AND active = ${true}`;
+ * // SELECT * FROM users WHERE id = $1 AND active = $2
+ * ```
+ *
+ * @param text - The SQL text
+ * @param options - Options for the queries
+ * @param defaultName - The name of the query before the first `-- name:`
+ * comment, if there is one
+ * @returns The queries by name
+ * @throws {SQLQueryError} If a name is used twice, a query has more than one
+ * statement, or there is SQL before the first `-- name:` comment and no
+ * default name
+ */
+export function parseQueries(
+  text: string,
+  options: SQLQueryOptions = {},
+  defaultName?: string,
+): Record<string, SQLQuery> {
+  const queries: Record<string, SQLQuery> = {};
+  const backslashes = options.dialect === "mysql";
+  let name = defaultName;
+  let strings: string[] = [""];
+  let values: NamedParameter[] = [];
+
+  const add = () => {
+    // A trailing semicolon ends the statement, it isn't part of it
+    strings[strings.length - 1] = stripSemicolon(
+      strings[strings.length - 1],
+      backslashes,
+    );
+    if (values.length === 0 && isBlank(strings[0], backslashes)) {
+      return;
+    }
+    if (name === undefined) {
+      throw new SQLQueryError(
+        'SQL before the first "-- name:" comment has no name',
+      );
+    }
+    if (Object.hasOwn(queries, name)) {
+      throw new SQLQueryError(`Query "${name}" is defined more than once`);
+    }
+    if (
+      strings.some((string) =>
+        tokenize(string, backslashes).some((token) => token.text === ";"),
+      )
+    ) {
+      throw new SQLQueryError(
+        `Query "${name}" has more than one statement, name each of them`,
+      );
+    }
+    queries[name] = SQLQuery.create(
+      options,
+      templateStrings(strings),
+      ...values,
+    );
+  };
+
+  const tokens = tokenize(text, backslashes);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const marker = token.type === "line-comment" &&
+      token.text.match(/^--\s*name:\s*([A-Za-z_][\w-]*)\s*$/);
+
+    if (marker) {
+      add();
+      name = marker[1];
+      strings = [""];
+      values = [];
+    } else if (
+      // :name, but not a :: cast or an array slice such as a[lo:hi]
+      token.text === ":" &&
+      next?.type === "word" &&
+      !(previous && ["word", "number", "identifier"].includes(previous.type)) &&
+      previous?.text !== ":" &&
+      /^[A-Za-z_]\w*$/.test(next.text)
+    ) {
+      values.push(param(next.text, undefined));
+      strings.push("");
+      i++;
+    } else if (
+      token.text === "$" &&
+      next?.text === "{" &&
+      tokens[i + 2]?.type === "word" &&
+      tokens[i + 3]?.text === "}"
+    ) {
+      values.push(param(tokens[i + 2].text, undefined));
+      strings.push("");
+      i += 3;
+    } else {
+      strings[strings.length - 1] += token.text;
+    }
+  }
+  add();
+  return queries;
 }
@@ -0,0 +1,180 @@
+import { DatabaseSync } from "node:sqlite";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { createSql, sql } from "../mod.ts";
+import { execute as executeDenoPostgres } from "../adapters/deno_postgres.ts";
+import { execute as executeNodePostgres } from "../adapters/node_postgres.ts";
+import { execute as executePostgresJs } from "../adapters/postgres_js.ts";
+import { execute as executeSQLite } from "../adapters/sqlite.ts";
+
+type User = { id: number; name: string };
+
+const query = sql<User>`SELECT id, name FROM users`
+  .sql`WHERE id IN (${[1, 2]})`
+  .sql`AND active = ${true}`;
+
+const text =
+  "SELECT\n  id,\n  name\nFROM users\nWHERE id IN ($1, $2)\n  AND active = $3";
+
+Deno.test("node-postgres adapter passes text and values", async () => {
+  const calls: unknown[] = [];
+  const client = {
+    query(config: { text: string; values: unknown[] }) {
+      calls.push(config);
+      return Promise.resolve({ rows: [{ id: 1, name: "Ada" }] });
+    },
+  };
+
+  const rows: User[] = await executeNodePostgres(client, query);
+  assertEquals(rows, [{ id: 1, name: "Ada" }]);
+  assertEquals(calls, [{ text, values: [1, 2, true] }]);
+});
+
+Deno.test("postgres.js adapter runs the text unsafely with bound values", async () => {
+  const calls: unknown[] = [];
+  const client = {
+    unsafe(text: string, parameters?: unknown[]) {
+      calls.push([text, parameters]);
+      return Promise.resolve(
+        Object.assign([{ id: 1, name: "Ada" }], {
+          count: 1,
+          command: "SELECT",
+        }),
+      );
+    },
+  };
+
+  const rows: User[] = await executePostgresJs(client, query);
+  assertEquals(rows, [{ id: 1, name: "Ada" }]);
+  assertEquals(calls, [[text, [1, 2, true]]]);
+});
+
+Deno.test("deno-postgres adapter passes text and args", async () => {
+  const calls: unknown[] = [];
+  const client = {
+    queryObject(config: { text: string; args: unknown[] }) {
+      calls.push(config);
+      return Promise.resolve({ rows: [{ id: 1, name: "Ada" }] });
+    },
+  };
+
+  const rows: User[] = await executeDenoPostgres(client, query);
+  assertEquals(rows, [{ id: 1, name: "Ada" }]);
+  assertEquals(calls, [{ text, args: [1, 2, true] }]);
+});
+
+Deno.test("SQLite adapter runs queries in every placeholder style", async () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    for (const style of ["anonymous", "numbered", "named"] as const) {
+      const sqlite = createSql({
+        dialect: "sqlite",
+        sqlitePlaceholders: style,
+      });
+      await executeSQLite(db, sqlite`DROP TABLE IF EXISTS users`);
+      await executeSQLite(
+        db,
+        sqlite`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, active INTEGER)`,
+      );
+      const inserts = [
+        [1, "Ada", true],
+        [2, "Alan", false],
+        [3, "Grace", true],
+      ] as const;
+      for (const [id, name, active] of inserts) {
+        await executeSQLite(
+          db,
+          sqlite`INSERT INTO users (id, name, active) VALUES (${id}, ${name}, ${active})`,
+        );
+      }
+
+      const users = sqlite<User>`SELECT id, name FROM users`
+        .sql`WHERE id IN (${[1, 2, 3]})`
+        .sql`AND active = ${true}`
+        .sql`ORDER BY id`;
+      const rows = await executeSQLite(db, users);
+      assertEquals(
+        rows.map((row) => ({ ...row })),
+        [{ id: 1, name: "Ada" }, { id: 3, name: "Grace" }],
+      );
+    }
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SQLite adapter runs IN and NOT IN with empty arrays", async () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    const sqlite = createSql({ dialect: "sqlite", emptyArrays: "false" });
+    await executeSQLite(
+      db,
+      sqlite`CREATE TABLE users (id INTEGER PRIMARY KEY)`,
+    );
+    await executeSQLite(
+      db,
+      sqlite`INSERT INTO users (id) VALUES (${1}), (${2})`,
+    );
+
+    const users = sqlite<
+      { count: number }
+    >`SELECT COUNT(*) AS count FROM users`;
+    const count = async (query: typeof users) =>
+      (await executeSQLite(db, query))[0].count;
+    assertEquals(await count(users.sql`WHERE id IN (${[]})`), 0);
+    assertEquals(await count(users.sql`WHERE id NOT IN (${[]})`), 2);
+    assertEquals(
+      await count(
+        users.withOptions({ emptyArrays: "null" }).sql`WHERE id NOT IN (${[]})`,
+      ),
+      0,
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SQLite adapter encodes values of other dialects for SQLite", async () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    const rows = await executeSQLite(
+      db,
+      sql`SELECT ${new Date(0)} AS at, ${true} AS yes, ${5n} AS n`,
+    );
+    assertEquals(
+      rows.map((row) => ({ ...row })),
+      [{ at: "1970-01-01T00:00:00.000Z", yes: 1, n: 5 }],
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SQLite adapter rejects when the statement fails", async () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    await assertRejects(() => executeSQLite(db, sql`SELECT * FROM missing`));
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SQLite adapter runs statements that don't return rows", async () => {
+  const calls: string[] = [];
+  const db = {
+    prepare(text: string) {
+      return {
+        reader: false,
+        all(): unknown[] {
+          throw new TypeError("This statement does not return data");
+        },
+        run(...parameters: unknown[]) {
+          calls.push(`${text} ${JSON.stringify(parameters)}`);
+        },
+      };
+    },
+  };
+
+  const rows = await executeSQLite(db, sql`DELETE FROM users WHERE id = ${1}`);
+  assertEquals(rows, []);
+  assertEquals(calls, ["DELETE FROM users\nWHERE id = ? [1]"]);
+});
@@ -40,7 +40,9 @@ Deno.test({
       // Check for expected output
       const expected = [
         "SELECT",
-        "  id, name FROM users",
+        "  id,",
+        "  name",
+        "FROM users",
         "WHERE active = true",
         "LIMIT 10",
       ].join("\n");
@@ -89,7 +91,8 @@ Deno.test({
     // Check for expected output
     const expected = [
       "SELECT",
-      "  * FROM products",
+      "  *",
+      "FROM products",
       "WHERE price > 100",
       "ORDER BY name ASC",
     ].join("\n");
@@ -125,7 +128,9 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  users.name, orders.amount FROM users",
+      "  users.name,",
+      "  orders.amount",
+      "FROM users",
       "JOIN orders ON users.id = orders.user_id",
     ].join("\n");
 
@@ -162,7 +167,9 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  users.*, orders.* FROM users",
+      "  users.*,",
+      "  orders.*",
+      "FROM users",
       "LEFT JOIN orders ON users.id = orders.user_id",
       "RIGHT JOIN user_profiles ON users.id = user_profiles.user_id",
     ].join("\n");
@@ -171,6 +178,45 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "CLI should handle FULL and CROSS JOIN clauses",
+  permissions: {
+    read: true,
+    write: true,
+    run: true,
+  },
+  async fn() {
+    const command = new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "--allow-read",
+        "bin/cli.ts",
+        "--query",
+        "SELECT * FROM users",
+        "--full-join",
+        "accounts ON users.id = accounts.user_id",
+        "--cross-join",
+        "regions",
+      ],
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { stdout } = await command.output();
+    const output = new TextDecoder().decode(stdout);
+
+    const expected = [
+      "SELECT",
+      "  *",
+      "FROM users",
+      "FULL JOIN accounts ON users.id = accounts.user_id",
+      "CROSS JOIN regions",
+    ].join("\n");
+
+    assertEquals(output.trim(), expected);
+  },
+});
+
 Deno.test({
   name: "CLI should handle GROUP BY clauses",
   permissions: {
@@ -198,8 +244,53 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  department, COUNT(*) as employee_count FROM employees",
+      "  department,",
+      "  COUNT(*) as employee_count",
+      "FROM employees",
+      "GROUP BY department",
+    ].join("\n");
+
+    assertEquals(output.trim(), expected);
+  },
+});
+
+Deno.test({
+  name: "CLI should handle HAVING clauses",
+  permissions: {
+    read: true,
+    write: true,
+    run: true,
+  },
+  async fn() {
+    const command = new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "--allow-read",
+        "bin/cli.ts",
+        "--query",
+        "SELECT department, COUNT(*) as employee_count FROM employees",
+        "--group-by",
+        "department",
+        "--having",
+        "COUNT(*) > 5",
+        "--and",
+        "MAX(salary) < 1000",
+      ],
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { stdout } = await command.output();
+    const output = new TextDecoder().decode(stdout);
+
+    const expected = [
+      "SELECT",
+      "  department,",
+      "  COUNT(*) as employee_count",
+      "FROM employees",
       "GROUP BY department",
+      "HAVING COUNT(*) > 5",
+      "  AND MAX(salary) < 1000",
     ].join("\n");
 
     assertEquals(output.trim(), expected);
@@ -235,7 +326,8 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  * FROM products",
+      "  *",
+      "FROM products",
       "WHERE price > 50",
       "  AND category = 'electronics'",
     ].join("\n");
@@ -273,7 +365,8 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  * FROM products",
+      "  *",
+      "FROM products",
       "WHERE price < 20",
       "  OR on_sale = true",
     ].join("\n");
@@ -313,7 +406,8 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  * FROM logs",
+      "  *",
+      "FROM logs",
       "ORDER BY created_at DESC",
       "LIMIT 100",
       "OFFSET 200",
@@ -421,7 +515,11 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  u.id, u.name, o.order_id, o.amount FROM users u",
+      "  u.id,",
+      "  u.name,",
+      "  o.order_id,",
+      "  o.amount",
+      "FROM users u",
       "INNER JOIN orders o ON u.id = o.user_id",
       "WHERE o.amount > 1000",
     ].join("\n");
@@ -463,7 +561,8 @@ Deno.test({
 
     const expected = [
       "SELECT",
-      "  * FROM products",
+      "  *",
+      "FROM products",
       "WHERE category IN ('electronics', 'computers')",
       "  AND price BETWEEN 100 AND 500",
       "  AND inventory_count > 0",
@@ -473,3 +572,170 @@ Deno.test({
     assertEquals(output.trim(), expected);
   },
 });
+
+Deno.test({
+  name: "CLI should pick a named query from a file and bind its parameters",
+  permissions: {
+    read: true,
+    write: true,
+    run: true,
+  },
+  async fn() {
+    const tempDir = await Deno.makeTempDir();
+    const sqlFilePath = `${tempDir}/queries.sql`;
+
+    try {
+      await Deno.writeTextFile(
+        sqlFilePath,
+        [
+          "-- name: findUser",
+          "SELECT id, name FROM users WHERE id = :id;",
+          "",
+          "-- name: listOrders",
+          "SELECT * FROM orders WHERE user_id = :userId AND status = :status;",
+        ].join("\n"),
+      );
+
+      const command = new Deno.Command(Deno.execPath(), {
+        args: [
+          "run",
+          "--allow-read",
+          "bin/cli.ts",
+          "--file",
+          sqlFilePath,
+          "--name",
+          "listOrders",
+          "--param",
+          "userId=7",
+          "--param",
+          "status=paid",
+          "--order-by",
+          "created_at DESC",
+        ],
+        stdout: "piped",
+        stderr: "piped",
+      });
+
+      const { stdout } = await command.output();
+      const output = new TextDecoder().decode(stdout);
+
+      const expected = [
+        "SELECT",
+        "  *",
+        "FROM orders",
+        "WHERE user_id = $1",
+        "  AND status = $2",
+        "ORDER BY created_at DESC",
+        "",
+        "Parameters:",
+        "[",
+        '  "7",',
+        '  "paid"',
+        "]",
+      ].join("\n");
+
+      assertEquals(output.trim(), expected);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "CLI should format the query in the requested style",
+  permissions: {
+    read: true,
+    write: true,
+    run: true,
+  },
+  async fn() {
+    const run = async (...flags: string[]) => {
+      const command = new Deno.Command(Deno.execPath(), {
+        args: [
+          "run",
+          "--allow-read",
+          "bin/cli.ts",
+          "--query",
+          "SELECT id, name FROM users",
+          "--where",
+          "active = true",
+          "--and",
+          "age > 18",
+          ...flags,
+        ],
+        stdout: "piped",
+        stderr: "piped",
+      });
+      const { stdout } = await command.output();
+      return new TextDecoder().decode(stdout).trim();
+    };
+
+    assertEquals(
+      await run("--no-format"),
+      "SELECT id, name FROM users WHERE active = true AND age > 18",
+    );
+    assertEquals(
+      await run("--align", "--keyword-case", "lower", "--leading-commas"),
+      [
+        "select id",
+        "     , name",
+        "  from users",
+        " where active = true",
+        "   and age > 18",
+      ].join("\n"),
+    );
+  },
+});
+
+Deno.test({
+  name: "CLI should print a debug rendering with parameters inlined",
+  permissions: {
+    read: true,
+    write: true,
+    run: true,
+  },
+  async fn() {
+    const tempDir = await Deno.makeTempDir();
+    const sqlFilePath = `${tempDir}/queries.sql`;
+
+    try {
+      await Deno.writeTextFile(
+        sqlFilePath,
+        "-- name: findUser\nSELECT id, name FROM users WHERE name = :name;",
+      );
+
+      const command = new Deno.Command(Deno.execPath(), {
+        args: [
+          "run",
+          "--allow-read",
+          "bin/cli.ts",
+          "--file",
+          sqlFilePath,
+          "--name",
+          "findUser",
+          "--param",
+          "name=O'Brien",
+          "--debug",
+        ],
+        stdout: "piped",
+        stderr: "piped",
+      });
+
+      const { stdout } = await command.output();
+      const output = new TextDecoder().decode(stdout);
+
+      const expected = [
+        "-- Debug rendering with parameters inlined, not for execution",
+        "SELECT",
+        "  id,",
+        "  name",
+        "FROM users",
+        "WHERE name = 'O''Brien'",
+      ].join("\n");
+
+      assertEquals(output.trim(), expected);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  },
+});
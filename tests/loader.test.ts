@@ -0,0 +1,81 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { SQLQueryError } from "../mod.ts";
+import { loadQueries } from "../loader.ts";
+
+Deno.test({
+  name: "loadQueries loads the named queries of a directory",
+  permissions: {
+    read: true,
+    write: true,
+  },
+  async fn() {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      await Deno.writeTextFile(
+        `${tempDir}/users.sql`,
+        [
+          "-- name: findUser",
+          "SELECT * FROM users WHERE id = :id;",
+          "",
+          "-- name: findUserByEmail",
+          "SELECT * FROM users WHERE email = ${email};",
+        ].join("\n"),
+      );
+      await Deno.writeTextFile(
+        `${tempDir}/active_projects.sql`,
+        "SELECT * FROM projects WHERE archived = false",
+      );
+      await Deno.writeTextFile(`${tempDir}/notes.txt`, "not a query");
+
+      const queries = await loadQueries(tempDir);
+      assertEquals(Object.keys(queries), [
+        "active_projects",
+        "findUser",
+        "findUserByEmail",
+      ]);
+      assertEquals(
+        queries.findUser.bind({ id: 1 }).toString(),
+        "SELECT\n  *\nFROM users\nWHERE id = $1",
+      );
+      assertEquals(queries.findUserByEmail.parametersByName, {
+        email: undefined,
+      });
+
+      const file = await loadQueries(
+        new URL(`file://${tempDir}/active_projects.sql`),
+        { dialect: "mysql" },
+      );
+      assertEquals(
+        file.active_projects.sql`AND owner_id = ${3}`.toString(),
+        "SELECT\n  *\nFROM projects\nWHERE archived = false\n  AND owner_id = ?",
+      );
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "loadQueries rejects names used in more than one file",
+  permissions: {
+    read: true,
+    write: true,
+  },
+  async fn() {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      await Deno.writeTextFile(`${tempDir}/a.sql`, "-- name: find\nSELECT 1");
+      await Deno.writeTextFile(`${tempDir}/b.sql`, "-- name: find\nSELECT 2");
+
+      await assertRejects(
+        () => loadQueries(tempDir),
+        SQLQueryError,
+        'Query "find" is defined more than once',
+      );
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  },
+});
@@ -1,16 +1,28 @@
 // Import the sql function
-import { sql } from "../mod.ts";
-import { assertEquals } from "jsr:@std/assert";
+import {
+  createSql,
+  decodeCursor,
+  encodeCursor,
+  ident,
+  param,
+  parseQueries,
+  raw,
+  type RowOf,
+  sql,
+  SQLQuery,
+  SQLQueryError,
+} from "../mod.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
 
 // Basic SELECT Tests
 Deno.test("Basic SELECT query", () => {
   const query = sql`SELECT * FROM users`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users");
 });
 
 Deno.test("SELECT with fields", () => {
   const query = sql`SELECT id, name, email FROM users`;
-  assertEquals(query.toString(), "SELECT\n  id, name, email FROM users");
+  assertEquals(query.toString(), "SELECT\n  id,\n  name,\n  email\nFROM users");
 });
 
 Deno.test("SELECT with fields on multiple lines", () => {
@@ -28,7 +40,7 @@ Deno.test("SELECT with JOIN", () => {
   const query = sql`SELECT * FROM users JOIN orders ON users.id = orders.user_id`;
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users JOIN orders ON users.id = orders.user_id",
+    "SELECT\n  *\nFROM users\nJOIN orders ON users.id = orders.user_id",
   );
 });
 
@@ -49,10 +61,10 @@ Deno.test("Adding a JOIN with sql method", () => {
   const newQuery = query.sql`JOIN orders ON users.id = orders.user_id`;
   assertEquals(
     newQuery.toString(),
-    "SELECT\n  * FROM users\nJOIN orders ON users.id = orders.user_id",
+    "SELECT\n  *\nFROM users\nJOIN orders ON users.id = orders.user_id",
   );
   // Original query should be unchanged
-  assertEquals(query.toString(), "SELECT\n  * FROM users");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users");
 });
 
 Deno.test("Adding multiple JOINs with sql method", () => {
@@ -61,20 +73,20 @@ Deno.test("Adding multiple JOINs with sql method", () => {
   query = query.sql`LEFT JOIN products ON orders.product_id = products.id`;
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users\nJOIN orders ON users.id = orders.user_id\nLEFT JOIN products ON orders.product_id = products.id",
+    "SELECT\n  *\nFROM users\nJOIN orders ON users.id = orders.user_id\nLEFT JOIN products ON orders.product_id = products.id",
   );
 });
 
 // WHERE Tests
 Deno.test("SELECT with WHERE", () => {
   const query = sql`SELECT * FROM users WHERE id = 1`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users WHERE id = 1");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id = 1");
 });
 
 Deno.test("Adding a WHERE with sql method", () => {
   const query = sql`SELECT * FROM users`;
   const newQuery = query.sql`WHERE id = 1`;
-  assertEquals(newQuery.toString(), "SELECT\n  * FROM users\nWHERE id = 1");
+  assertEquals(newQuery.toString(), "SELECT\n  *\nFROM users\nWHERE id = 1");
 });
 
 Deno.test("Adding multiple WHERE conditions with AND", () => {
@@ -83,7 +95,7 @@ Deno.test("Adding multiple WHERE conditions with AND", () => {
   query = query.sql`AND name = 'John'`;
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users\nWHERE id = 1\n  AND name = 'John'",
+    "SELECT\n  *\nFROM users\nWHERE id = 1\n  AND name = 'John'",
   );
 });
 
@@ -93,7 +105,7 @@ Deno.test("Adding multiple WHERE conditions with OR", () => {
   query = query.sql`OR name = 'John'`;
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users\nWHERE id = 1\n  OR name = 'John'",
+    "SELECT\n  *\nFROM users\nWHERE id = 1\n  OR name = 'John'",
   );
 });
 
@@ -105,7 +117,7 @@ Deno.test(
     query = query.sql`name = 'John'`;
     assertEquals(
       query.toString(),
-      "SELECT\n  * FROM users\nWHERE id = 1\n  AND name = 'John'",
+      "SELECT\n  *\nFROM users\nWHERE id = 1\n  AND name = 'John'",
     );
   },
 );
@@ -115,7 +127,7 @@ Deno.test("SELECT with GROUP BY", () => {
   const query = sql`SELECT count(*) FROM users GROUP BY department`;
   assertEquals(
     query.toString(),
-    "SELECT\n  count(*) FROM users GROUP BY department",
+    "SELECT\n  count(*)\nFROM users\nGROUP BY department",
   );
 });
 
@@ -124,7 +136,7 @@ Deno.test("Adding GROUP BY with sql method", () => {
   const newQuery = query.sql`GROUP BY department`;
   assertEquals(
     newQuery.toString(),
-    "SELECT\n  count(*) FROM users\nGROUP BY department",
+    "SELECT\n  count(*)\nFROM users\nGROUP BY department",
   );
 });
 
@@ -132,63 +144,63 @@ Deno.test("Multiple GROUP BY fields", () => {
   const query = sql`SELECT count(*) FROM users GROUP BY department, role`;
   assertEquals(
     query.toString(),
-    "SELECT\n  count(*) FROM users GROUP BY department, role",
+    "SELECT\n  count(*)\nFROM users\nGROUP BY department, role",
   );
 });
 
 // ORDER BY Tests
 Deno.test("SELECT with ORDER BY", () => {
   const query = sql`SELECT * FROM users ORDER BY name`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users ORDER BY name");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nORDER BY name");
 });
 
 Deno.test("Adding ORDER BY with sql method", () => {
   const query = sql`SELECT * FROM users`;
   const newQuery = query.sql`ORDER BY name`;
-  assertEquals(newQuery.toString(), "SELECT\n  * FROM users\nORDER BY name");
+  assertEquals(newQuery.toString(), "SELECT\n  *\nFROM users\nORDER BY name");
 });
 
 Deno.test("ORDER BY with direction", () => {
   const query = sql`SELECT * FROM users ORDER BY name DESC`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users ORDER BY name DESC");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nORDER BY name DESC");
 });
 
 Deno.test("Multiple ORDER BY fields", () => {
   const query = sql`SELECT * FROM users ORDER BY department, name DESC`;
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users ORDER BY department, name DESC",
+    "SELECT\n  *\nFROM users\nORDER BY department, name DESC",
   );
 });
 
 // LIMIT and OFFSET Tests
 Deno.test("SELECT with LIMIT", () => {
   const query = sql`SELECT * FROM users LIMIT 10`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users LIMIT 10");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nLIMIT 10");
 });
 
 Deno.test("Adding LIMIT with sql method", () => {
   const query = sql`SELECT * FROM users`;
   const newQuery = query.sql`LIMIT 10`;
-  assertEquals(newQuery.toString(), "SELECT\n  * FROM users\nLIMIT 10");
+  assertEquals(newQuery.toString(), "SELECT\n  *\nFROM users\nLIMIT 10");
 });
 
 Deno.test("SELECT with OFFSET", () => {
   const query = sql`SELECT * FROM users OFFSET 20`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users OFFSET 20");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nOFFSET 20");
 });
 
 Deno.test("Adding OFFSET with sql method", () => {
   const query = sql`SELECT * FROM users`;
   const newQuery = query.sql`OFFSET 20`;
-  assertEquals(newQuery.toString(), "SELECT\n  * FROM users\nOFFSET 20");
+  assertEquals(newQuery.toString(), "SELECT\n  *\nFROM users\nOFFSET 20");
 });
 
 Deno.test("LIMIT and OFFSET together", () => {
   let query = sql`SELECT * FROM users`;
   query = query.sql`LIMIT 10`;
   query = query.sql`OFFSET 20`;
-  assertEquals(query.toString(), "SELECT\n  * FROM users\nLIMIT 10\nOFFSET 20");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nLIMIT 10\nOFFSET 20");
 });
 
 // Parameter Tests
@@ -196,7 +208,7 @@ Deno.test("Parameters in WHERE clause", () => {
   const id = 1;
   const query = sql`SELECT * FROM users WHERE id = ${id}`;
   assertEquals(query.toString().includes("$1"), true);
-  assertEquals(query.toString(), "SELECT\n  * FROM users WHERE id = $1");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id = $1");
   assertEquals(query.parameters[0], 1);
 });
 
@@ -226,7 +238,7 @@ Deno.test("Multiple parameters across multiple sql calls", () => {
   assertEquals(query.toString().includes("$1"), true);
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users\nWHERE id = $1\n  AND name = $2",
+    "SELECT\n  *\nFROM users\nWHERE id = $1\n  AND name = $2",
   );
   assertEquals(query.parameters[0], 1);
   assertEquals(query.parameters[1], "John");
@@ -240,7 +252,7 @@ Deno.test("Skip undefined values", () => {
   assertEquals(query.toString().includes("undefined"), false);
   assertEquals(
     query.toString(),
-    "SELECT\n  * FROM users WHERE id = $1 AND name = NULL",
+    "SELECT\n  *\nFROM users\nWHERE id = $1\n  AND name = NULL",
   );
   assertEquals(query.parameters[0], 1);
 });
@@ -323,7 +335,8 @@ Deno.test("Building query conditionally", () => {
 
   const expected = [
     "SELECT",
-    "  * FROM users",
+    "  *",
+    "FROM users",
     "JOIN orders ON users.id = orders.user_id",
     "WHERE name = $1",
     "LIMIT $2",
@@ -335,10 +348,44 @@ Deno.test("Building query conditionally", () => {
   assertEquals(query.parameters[1], 10);
 });
 
+Deno.test("Clauses added after a locking clause come before it", () => {
+  const query = sql`SELECT * FROM jobs FOR UPDATE SKIP LOCKED`
+    .sql`WHERE status = ${"queued"}`
+    .sql`ORDER BY id LIMIT ${1}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM jobs\nWHERE status = $1\nORDER BY id\nLIMIT $2\nFOR UPDATE SKIP LOCKED",
+  );
+  assertEquals(
+    sql`SELECT * FROM accounts FOR NO KEY UPDATE`.toCountQuery().toString(),
+    "SELECT\n  COUNT(*)\nFROM accounts",
+  );
+});
+
+Deno.test("A trailing semicolon ends the statement", () => {
+  const query = sql`SELECT * FROM users WHERE active = ${true};`
+    .sql`AND name = ${"Ada"};`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE active = $1\n  AND name = $2");
+  assertEquals(sql`SELECT ';' AS s;`.toString(), "SELECT\n  ';' AS s");
+});
+
+Deno.test("Qualified names are not mistaken for keywords", () => {
+  const query = sql`SELECT p.limit, p.offset FROM plans p WHERE p.order > ${1}`
+    .sql`AND t.and = p.or`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  p.limit,\n  p.offset\nFROM plans p\nWHERE p.order > $1\n  AND t.and = p.or",
+  );
+  assertEquals(
+    sql`INSERT INTO copies (v) SELECT p.values FROM plans p`.toString(),
+    "INSERT INTO copies (v)\nSELECT\n  p.values\nFROM plans p",
+  );
+});
+
 // Edge case Tests
 Deno.test("Empty SELECT", () => {
   const query = sql`SELECT FROM users`;
-  assertEquals(query.toString(), "SELECT\n  FROM users");
+  assertEquals(query.toString(), "SELECT *\nFROM users");
 });
 
 Deno.test("SELECT with leading commas", () => {
@@ -366,9 +413,9 @@ Deno.test("Query immutability", () => {
   const query2 = query1.sql`WHERE id = 1`;
 
   // Original query is unchanged
-  assertEquals(query1.toString(), "SELECT\n  * FROM users");
+  assertEquals(query1.toString(), "SELECT\n  *\nFROM users");
   // New query has the WHERE clause
-  assertEquals(query2.toString(), "SELECT\n  * FROM users\nWHERE id = 1");
+  assertEquals(query2.toString(), "SELECT\n  *\nFROM users\nWHERE id = 1");
 });
 
 // Complex SQL function calls test
@@ -460,6 +507,1990 @@ Deno.test("Async usage pattern", async () => {
   query = query.sql`WHERE name = ${user.name}`;
 
   assertEquals(query.toString().includes("$1"), true);
-  assertEquals(query.toString(), "SELECT\n  * FROM users\nWHERE name = $1");
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE name = $1");
   assertEquals(query.parameters[0], "User 5");
 });
+
+// Nested query Tests
+Deno.test("Subquery parameters are merged and renumbered", () => {
+  const subquery = sql`SELECT user_id FROM orders WHERE total > ${100}`;
+  const query = sql`SELECT * FROM users WHERE active = ${true} AND id IN (${subquery})`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE active = $1\n  AND id IN (SELECT user_id FROM orders WHERE total > $2)",
+  );
+  assertEquals(query.parameters, [true, 100]);
+  // The subquery keeps its own numbering
+  assertEquals(subquery.parameters, [100]);
+});
+
+Deno.test("Multi-line subqueries are embedded on a single line", () => {
+  const subquery = sql`
+  SELECT user_id
+  FROM orders
+  WHERE total > ${100} -- big spenders
+  `;
+  let query = sql`SELECT * FROM users`;
+  query = query.sql`WHERE name = ${"John"}`;
+  query = query.sql`AND id IN (${subquery})`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE name = $1\n  AND id IN (SELECT user_id FROM orders WHERE total > $2 /* big spenders */)",
+  );
+  assertEquals(query.parameters, ["John", 100]);
+});
+
+Deno.test("Reusable fragments keep their text and parameters", () => {
+  const activeSince = (date: string) =>
+    sql`active = ${true} AND created_at > ${date}`;
+
+  const fragment = activeSince("2024-01-01");
+  assertEquals(fragment.toString(), "active = $1 AND created_at > $2");
+
+  let query = sql`SELECT * FROM users`;
+  query = query.sql`WHERE name = ${"John"}`;
+  query = query.sql`AND ${fragment}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE name = $1\n  AND active = $2\n  AND created_at > $3",
+  );
+  assertEquals(query.parameters, ["John", true, "2024-01-01"]);
+});
+
+Deno.test("Fragments nested in fragments are renumbered at every level", () => {
+  const inner = sql`role = ${"admin"}`;
+  const middle = sql`(${inner} OR team = ${"ops"})`;
+  const query = sql`SELECT * FROM users WHERE id > ${10} AND ${middle}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE id > $1\n  AND (role = $2 OR team = $3)",
+  );
+  assertEquals(query.parameters, [10, "admin", "ops"]);
+});
+
+Deno.test("Placeholder-like text inside literals is not renumbered", () => {
+  const fragment = sql`note <> '$1' AND body <> $$ $1 $$ AND id = ${5}`;
+  const query = sql`SELECT * FROM notes WHERE author = ${"Ann"} AND ${fragment}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM notes\nWHERE author = $1\n  AND note <> '$1'\n  AND body <> $$ $1 $$\n  AND id = $2",
+  );
+  assertEquals(query.parameters, ["Ann", 5]);
+});
+
+// Dialect Tests
+Deno.test("Postgres is the default dialect", () => {
+  const query = sql`SELECT * FROM users WHERE id = ${1}`;
+  assertEquals(query.dialect, "postgres");
+  assertEquals(query.toDialect(), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = $1",
+    values: [1],
+  });
+});
+
+Deno.test("MySQL placeholders bind in order of appearance", () => {
+  let query = sql`SELECT * FROM users`;
+  query = query.sql`LIMIT ${10}`;
+  query = query.sql`WHERE name = ${"John"}`;
+  assertEquals(query.toDialect("mysql"), {
+    text: "SELECT\n  *\nFROM users\nWHERE name = ?\nLIMIT ?",
+    values: ["John", 10],
+  });
+});
+
+Deno.test("SQLite placeholder styles", () => {
+  const query = sql`SELECT * FROM users WHERE id = ${1} AND name = ${"John"}`;
+  assertEquals(query.toDialect("sqlite"), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = ?\n  AND name = ?",
+    values: [1, "John"],
+  });
+  assertEquals(
+    query.withOptions({ sqlitePlaceholders: "numbered" }).toDialect("sqlite"),
+    {
+      text: "SELECT\n  *\nFROM users\nWHERE id = ?1\n  AND name = ?2",
+      values: [1, "John"],
+    },
+  );
+  assertEquals(
+    query.withOptions({ sqlitePlaceholders: "named" }).toDialect("sqlite"),
+    {
+      text: "SELECT\n  *\nFROM users\nWHERE id = :p1\n  AND name = :p2",
+      values: { p1: 1, p2: "John" },
+    },
+  );
+});
+
+Deno.test("SQL Server and Oracle placeholders", () => {
+  const query = sql`SELECT * FROM users WHERE id = ${1} AND name = ${"John"}`;
+  assertEquals(query.toDialect("mssql"), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = @p1\n  AND name = @p2",
+    values: { p1: 1, p2: "John" },
+  });
+  assertEquals(query.toDialect("oracle"), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = :1\n  AND name = :2",
+    values: [1, "John"],
+  });
+});
+
+Deno.test("createSql renders queries and appended fragments in its dialect", () => {
+  const mysql = createSql({ dialect: "mysql" });
+  const filter = sql`status = ${"active"}`;
+  let query = mysql`
+  SELECT *
+  FROM users
+  WHERE id = ${1}`;
+  query = query.sql`AND ${filter}`;
+  assertEquals(query.dialect, "mysql");
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE id = ?\n  AND status = ?",
+  );
+  assertEquals(query.parameters, [1, "active"]);
+});
+
+Deno.test("withOptions does not change the original query", () => {
+  const query = sql`SELECT * FROM users WHERE id = ${1}`;
+  const mysqlQuery = query.withOptions({ dialect: "mysql" });
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id = $1");
+  assertEquals(mysqlQuery.toString(), "SELECT\n  *\nFROM users\nWHERE id = ?");
+});
+
+// INSERT, UPDATE and DELETE Tests
+Deno.test("INSERT with multiple rows, ON CONFLICT and RETURNING", () => {
+  const query = sql`INSERT INTO users (name, email) VALUES (${"Ann"}, ${"ann@example.com"}), (${"Bob"}, ${"bob@example.com"}) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name WHERE users.active RETURNING id`;
+  assertEquals(
+    query.toString(),
+    [
+      "INSERT INTO users (name, email)",
+      "VALUES",
+      "  ($1, $2),",
+      "  ($3, $4)",
+      "ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name WHERE users.active",
+      "RETURNING id",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [
+    "Ann",
+    "ann@example.com",
+    "Bob",
+    "bob@example.com",
+  ]);
+});
+
+Deno.test("Adding rows and RETURNING to an INSERT with sql method", () => {
+  let query = sql`
+  INSERT INTO users (name)
+  VALUES (${"Ann"})`;
+  query = query.sql`VALUES (${"Bob"}), (${"Cid"})`;
+  query = query.sql`ON CONFLICT DO NOTHING`;
+  query = query.sql`RETURNING id, name`;
+  assertEquals(
+    query.toString(),
+    [
+      "INSERT INTO users (name)",
+      "VALUES",
+      "  ($1),",
+      "  ($2),",
+      "  ($3)",
+      "ON CONFLICT DO NOTHING",
+      "RETURNING id, name",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, ["Ann", "Bob", "Cid"]);
+});
+
+Deno.test("INSERT from a SELECT", () => {
+  let query = sql`
+  INSERT INTO archive (id, name)
+  SELECT id, name
+  FROM users`;
+  query = query.sql`WHERE deleted_at < ${"2024-01-01"}`;
+  assertEquals(
+    query.toString(),
+    [
+      "INSERT INTO archive (id, name)",
+      "SELECT",
+      "  id,",
+      "  name",
+      "FROM users",
+      "WHERE deleted_at < $1",
+    ].join("\n"),
+  );
+});
+
+Deno.test("INSERT with DEFAULT VALUES", () => {
+  const query = sql`INSERT INTO events DEFAULT VALUES RETURNING id`;
+  assertEquals(
+    query.toString(),
+    "INSERT INTO events DEFAULT VALUES\nRETURNING id",
+  );
+});
+
+Deno.test("UPDATE with SET, FROM, WHERE and RETURNING", () => {
+  let query = sql`UPDATE users SET name = ${"Ann"}, active = ${true} FROM teams WHERE teams.id = users.team_id`;
+  query = query.sql`SET updated_at = NOW()`;
+  query = query.sql`AND users.id = ${5}`;
+  query = query.sql`RETURNING users.id`;
+  assertEquals(
+    query.toString(),
+    [
+      "UPDATE users",
+      "SET",
+      "  name = $1,",
+      "  active = $2,",
+      "  updated_at = NOW()",
+      "FROM teams",
+      "WHERE teams.id = users.team_id",
+      "  AND users.id = $3",
+      "RETURNING users.id",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, ["Ann", true, 5]);
+});
+
+Deno.test("UPDATE keywords inside literals and subqueries are not clauses", () => {
+  const query = sql`UPDATE notes SET body = 'where from', tags = ARRAY(SELECT tag FROM tags WHERE tags.note_id = notes.id) WHERE id = ${1}`;
+  assertEquals(
+    query.toString(),
+    [
+      "UPDATE notes",
+      "SET",
+      "  body = 'where from',",
+      "  tags = ARRAY(SELECT tag FROM tags WHERE tags.note_id = notes.id)",
+      "WHERE id = $1",
+    ].join("\n"),
+  );
+});
+
+Deno.test("DELETE with USING, WHERE and RETURNING", () => {
+  let query = sql`DELETE FROM orders USING users WHERE orders.user_id = users.id`;
+  query = query.sql`AND users.banned = ${true}`;
+  query = query.sql`RETURNING orders.id`;
+  assertEquals(
+    query.toString(),
+    [
+      "DELETE FROM orders",
+      "USING users",
+      "WHERE orders.user_id = users.id",
+      "  AND users.banned = $1",
+      "RETURNING orders.id",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [true]);
+});
+
+Deno.test("Adding a WHERE to a DELETE with sql method", () => {
+  const query = sql`DELETE FROM sessions`.sql`WHERE expires_at < ${"2024-01-01"}`;
+  assertEquals(query.toString(), "DELETE FROM sessions\nWHERE expires_at < $1");
+});
+
+// HAVING Tests
+Deno.test("SELECT with HAVING", () => {
+  const query = sql`
+  SELECT department, COUNT(*)
+  FROM users
+  GROUP BY department
+  HAVING COUNT(*) > ${5}
+    AND MAX(age) < ${60}
+  ORDER BY department`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  department,",
+      "  COUNT(*)",
+      "FROM users",
+      "GROUP BY department",
+      "HAVING COUNT(*) > $1",
+      "  AND MAX(age) < $2",
+      "ORDER BY department",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [5, 60]);
+});
+
+Deno.test("Adding HAVING with sql method", () => {
+  let query = sql`SELECT department, COUNT(*) FROM users`;
+  query = query.sql`WHERE active = ${true}`;
+  query = query.sql`GROUP BY department`;
+  query = query.sql`HAVING COUNT(*) > ${5}`;
+  query = query.sql`OR SUM(salary) > ${1000}`;
+  query = query.sql`ORDER BY department`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  department,",
+      "  COUNT(*)",
+      "FROM users",
+      "WHERE active = $1",
+      "GROUP BY department",
+      "HAVING COUNT(*) > $2",
+      "  OR SUM(salary) > $3",
+      "ORDER BY department",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [true, 5, 1000]);
+});
+
+Deno.test("AND conditions follow the WHERE or HAVING clause used last", () => {
+  let query = sql`SELECT department, COUNT(*) FROM users`;
+  query = query.sql`HAVING COUNT(*) > ${5}`;
+  query = query.sql`AND MAX(age) < ${60}`;
+  query = query.sql`WHERE active = ${true}`;
+  query = query.sql`AND deleted_at IS NULL`;
+  query = query.sql`GROUP BY department`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  department,",
+      "  COUNT(*)",
+      "FROM users",
+      "WHERE active = $3",
+      "  AND deleted_at IS NULL",
+      "GROUP BY department",
+      "HAVING COUNT(*) > $1",
+      "  AND MAX(age) < $2",
+    ].join("\n"),
+  );
+});
+
+// WITH Tests
+Deno.test("SELECT with a recursive CTE", () => {
+  const query = sql`
+  WITH RECURSIVE tree AS (
+    SELECT id, parent_id FROM nodes WHERE id = ${1}
+    UNION ALL
+    SELECT n.id, n.parent_id FROM nodes n JOIN tree t ON n.parent_id = t.id
+  )
+  SELECT id
+  FROM tree
+  WHERE id <> ${1}`;
+  assertEquals(
+    query.toString(),
+    [
+      "WITH RECURSIVE tree AS (",
+      "    SELECT id, parent_id FROM nodes WHERE id = $1",
+      "    UNION ALL",
+      "    SELECT n.id, n.parent_id FROM nodes n JOIN tree t ON n.parent_id = t.id",
+      "  )",
+      "SELECT",
+      "  id",
+      "FROM tree",
+      "WHERE id <> $2",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [1, 1]);
+});
+
+Deno.test("Several CTEs on a single line", () => {
+  const query = sql`WITH a AS (SELECT 1 AS x), b (y) AS MATERIALIZED (SELECT 2) SELECT * FROM a, b`;
+  assertEquals(
+    query.toString(),
+    [
+      "WITH a AS (SELECT 1 AS x),",
+      "b (y) AS MATERIALIZED (SELECT 2)",
+      "SELECT",
+      "  *",
+      "FROM a, b",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Adding CTEs with sql method", () => {
+  const bigOrders = sql`SELECT * FROM orders WHERE total > ${1000}`;
+  let query = sql`
+  SELECT user_id
+  FROM big_orders`;
+  query = query.sql`WHERE created_at > ${"2024-01-01"}`;
+  query = query.sql`WITH big_orders AS (${bigOrders})`;
+  query = query.sql`WITH RECURSIVE numbers (n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM numbers WHERE n < ${10})`;
+  assertEquals(
+    query.toString(),
+    [
+      "WITH RECURSIVE big_orders AS (SELECT * FROM orders WHERE total > $2),",
+      "numbers (n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM numbers WHERE n < $3)",
+      "SELECT",
+      "  user_id",
+      "FROM big_orders",
+      "WHERE created_at > $1",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, ["2024-01-01", 1000, 10]);
+  // Placeholders are bound in order of appearance for "?" dialects
+  assertEquals(query.toDialect("mysql").values, [1000, 10, "2024-01-01"]);
+});
+
+Deno.test("CTE followed by an UPDATE", () => {
+  const query = sql`WITH stale AS (SELECT id FROM sessions WHERE expires_at < NOW()) UPDATE sessions SET active = ${false} WHERE id IN (SELECT id FROM stale)`;
+  assertEquals(
+    query.toString(),
+    [
+      "WITH stale AS (SELECT id FROM sessions WHERE expires_at < NOW())",
+      "UPDATE sessions",
+      "SET",
+      "  active = $1",
+      "WHERE id IN (SELECT id FROM stale)",
+    ].join("\n"),
+  );
+});
+
+// Set operation Tests
+Deno.test("UNION ALL merges parameters and applies ORDER BY and LIMIT to the result", () => {
+  const users = sql`SELECT id, name FROM users WHERE active = ${true}`;
+  const admins = sql`SELECT id, name FROM admins WHERE level > ${2}`;
+  let query = users.unionAll(admins);
+  query = query.sql`ORDER BY name`;
+  query = query.sql`LIMIT ${10}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  id,",
+      "  name",
+      "FROM users",
+      "WHERE active = $1",
+      "UNION ALL",
+      "SELECT",
+      "  id,",
+      "  name",
+      "FROM admins",
+      "WHERE level > $2",
+      "ORDER BY name",
+      "LIMIT $3",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [true, 2, 10]);
+  // Both sides are unchanged
+  assertEquals(users.parameters, [true]);
+  assertEquals(admins.toString(), "SELECT\n  id,\n  name\nFROM admins\nWHERE level > $1");
+});
+
+Deno.test("Set operations reject an ordered or limited left query", () => {
+  const top = sql`SELECT a FROM t ORDER BY a LIMIT ${5}`;
+  assertThrows(
+    () => top.union(sql`SELECT b FROM u`),
+    SQLQueryError,
+    "Cannot use UNION on a query with ORDER BY, LIMIT or OFFSET",
+  );
+  assertThrows(
+    () => sql`SELECT a FROM t`.union(sql`SELECT b FROM u`).sql`LIMIT ${5}`.except(sql`SELECT c FROM v`),
+    SQLQueryError,
+    "Cannot use EXCEPT on a query with ORDER BY, LIMIT or OFFSET",
+  );
+  // Wrapped as a subquery, the left query keeps its own ordering
+  assertEquals(
+    sql`SELECT * FROM (${top}) AS top`.union(sql`SELECT b FROM u`).toString(),
+    "SELECT\n  *\nFROM (SELECT a FROM t ORDER BY a LIMIT $1) AS top\nUNION\nSELECT\n  b\nFROM u",
+  );
+});
+
+Deno.test("Conditions, joins and grouping can't be added to a compound query", () => {
+  const query = sql`SELECT a FROM t`.union(sql`SELECT b FROM u`);
+  assertThrows(
+    () => query.sql`WHERE x = ${1}`,
+    SQLQueryError,
+    "Cannot add WHERE to a compound query",
+  );
+  assertThrows(() => query.sql`AND x = 1`, SQLQueryError, "Cannot add conditions");
+  assertThrows(() => query.sql`JOIN v ON v.a = t.a`, SQLQueryError, "Cannot add JOIN");
+  assertThrows(() => query.sql`GROUP BY a HAVING COUNT(*) > 1`, SQLQueryError, "GROUP BY");
+  assertThrows(
+    () => sql`SELECT a FROM t UNION SELECT b FROM u`.sql`WHERE x = 1`,
+    SQLQueryError,
+  );
+  // Clauses of the whole result are still fine
+  assertEquals(query.sql`ORDER BY a LIMIT ${5}`.parameters, [5]);
+});
+
+Deno.test("Set operations chain and parenthesize ordered queries", () => {
+  const recent = sql`SELECT id FROM orders`.sql`ORDER BY created_at DESC`.sql`LIMIT ${5}`;
+  const query = sql`SELECT id FROM orders WHERE total > ${100}`
+    .union(recent)
+    .intersect(sql`SELECT id FROM paid_orders`)
+    .except(sql`SELECT id FROM refunds WHERE amount > ${50}`);
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  id",
+      "FROM orders",
+      "WHERE total > $1",
+      "UNION",
+      "(SELECT id FROM orders ORDER BY created_at DESC LIMIT $2)",
+      "INTERSECT",
+      "SELECT",
+      "  id",
+      "FROM paid_orders",
+      "EXCEPT",
+      "SELECT",
+      "  id",
+      "FROM refunds",
+      "WHERE amount > $3",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [100, 5, 50]);
+});
+
+Deno.test("Set operations in a template literal", () => {
+  const query = sql`
+  SELECT id FROM users WHERE name = ${"Ann"}
+  union all
+  SELECT id FROM admins
+  ORDER BY id
+  LIMIT 5`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  id",
+      "FROM users",
+      "WHERE name = $1",
+      "UNION ALL",
+      "SELECT",
+      "  id",
+      "FROM admins",
+      "ORDER BY id",
+      "LIMIT 5",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Adding a set operation with sql method", () => {
+  let query = sql`SELECT id FROM users`;
+  query = query.sql`WHERE active = ${true}`;
+  query = query.sql`EXCEPT SELECT user_id FROM bans WHERE until > ${"2024-01-01"}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  id",
+      "FROM users",
+      "WHERE active = $1",
+      "EXCEPT",
+      "SELECT",
+      "  user_id",
+      "FROM bans",
+      "WHERE until > $2",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Set operators inside subqueries are left alone", () => {
+  let query = sql`SELECT * FROM users`;
+  query = query.sql`WHERE id IN (SELECT id FROM a UNION SELECT id FROM b)`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE id IN (SELECT id FROM a UNION SELECT id FROM b)",
+  );
+});
+
+// Array parameter Tests
+Deno.test("Arrays expand to one parameter per item", () => {
+  const query = sql`SELECT * FROM users WHERE active = ${true} AND id IN (${[1, 2, 3]}) AND role = ${"admin"}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE active = $1\n  AND id IN ($2, $3, $4)\n  AND role = $5",
+  );
+  assertEquals(query.parameters, [true, 1, 2, 3, "admin"]);
+});
+
+Deno.test("Empty arrays render NULL by default", () => {
+  const query = sql`SELECT * FROM users`.sql`WHERE id IN (${[]})`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id IN (NULL)");
+  assertEquals(query.parameters, []);
+});
+
+Deno.test("Empty arrays can render a subquery without rows", () => {
+  const empty = createSql({ emptyArrays: "false" });
+  const query = empty`SELECT * FROM users WHERE id IN (${[]}) OR id NOT IN (${[]})`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE id IN (SELECT NULL WHERE 1 = 0)\n  OR id NOT IN (SELECT NULL WHERE 1 = 0)",
+  );
+  assertEquals(
+    createSql({ emptyArrays: "false", dialect: "oracle" })`SELECT * FROM users WHERE id NOT IN (${[]})`
+      .toString(),
+    "SELECT\n  *\nFROM users\nWHERE id NOT IN (SELECT NULL FROM DUAL WHERE 1 = 0)",
+  );
+});
+
+Deno.test("Empty arrays can be rejected", () => {
+  const strict = createSql({ emptyArrays: "throw" });
+  assertThrows(
+    () => strict`SELECT * FROM users WHERE id IN (${[]})`,
+    SQLQueryError,
+    "empty array",
+  );
+  const query = strict`SELECT * FROM users`;
+  assertThrows(() => query.sql`WHERE id IN (${[]})`, SQLQueryError);
+});
+
+Deno.test("Arrays can bind as a single parameter for ANY", () => {
+  const pg = createSql({ arrayParameters: "bind" });
+  const query = pg`SELECT * FROM users WHERE id = ANY(${[1, 2, 3]})`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id = ANY($1)");
+  assertEquals(query.parameters, [[1, 2, 3]]);
+});
+
+// Named parameter Tests
+Deno.test("Named parameters share one placeholder across fragments", () => {
+  const tenant = (id: number) => sql`tenant_id = ${param("tenantId", id)}`;
+  let query = sql`SELECT * FROM projects`;
+  query = query.sql`WHERE ${tenant(7)}`;
+  query = query.sql`AND status = ${"open"}`;
+  query = query.sql`AND owner_id IN (SELECT id FROM users WHERE ${tenant(7)})`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM projects",
+      "WHERE tenant_id = $1",
+      "  AND status = $2",
+      "  AND owner_id IN (SELECT id FROM users WHERE tenant_id = $1)",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [7, "open"]);
+  assertEquals(query.parametersByName, { tenantId: 7 });
+});
+
+Deno.test("Named parameters are repeated for positional dialects", () => {
+  const id = param("id", 3);
+  const query = sql`SELECT * FROM users WHERE id = ${id} OR manager_id = ${id}`;
+  assertEquals(query.toDialect("mysql"), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = ?\n  OR manager_id = ?",
+    values: [3, 3],
+  });
+  assertEquals(query.toDialect("mssql"), {
+    text: "SELECT\n  *\nFROM users\nWHERE id = @id\n  OR manager_id = @id",
+    values: { id: 3 },
+  });
+});
+
+Deno.test("Unnamed parameters don't take the names of named ones", () => {
+  const query = sql`SELECT * FROM t WHERE a = ${param("p2", 1)} AND b = ${2}`;
+  assertEquals(query.toDialect("mssql"), {
+    text: "SELECT\n  *\nFROM t\nWHERE a = @p2\n  AND b = @p2_1",
+    values: { p2: 1, p2_1: 2 },
+  });
+});
+
+Deno.test("Named parameters can be bound later", () => {
+  const query = sql`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", undefined)} AND id > ${10}`;
+  const bound = query.bind({ tenantId: 42 });
+  assertEquals(bound.parameters, [42, 10]);
+  assertEquals(bound.parametersByName, { tenantId: 42 });
+  // The original query is unchanged
+  assertEquals(query.parameters, [undefined, 10]);
+  // Binding again overrides the value
+  assertEquals(bound.bind({ tenantId: 1 }).parameters, [1, 10]);
+});
+
+Deno.test("Binding an unknown named parameter throws", () => {
+  const query = sql`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", 1)}`;
+  assertThrows(() => query.bind({ tenant: 2 }), SQLQueryError, "tenant");
+});
+
+Deno.test("Reusing a named parameter with a different value throws", () => {
+  const query = sql`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", 1)}`;
+  assertThrows(
+    () => query.sql`AND owner_tenant_id = ${param("tenantId", 2)}`,
+    SQLQueryError,
+    "tenantId",
+  );
+  assertThrows(() => param("tenant id", 1), SQLQueryError);
+});
+
+Deno.test("Named parameters can have the names of object properties", () => {
+  const query = sql`SELECT * FROM t WHERE a = ${param("constructor", 1)}`
+    .sql`AND b = ${param("toString", 2)}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM t\nWHERE a = $1\n  AND b = $2");
+  assertEquals(query.parameters, [1, 2]);
+  assertEquals(query.bind({ constructor: 3 }).parameters, [3, 2]);
+  assertThrows(
+    () => sql`SELECT 1`.bind({ hasOwnProperty: 1 }),
+    SQLQueryError,
+    'Unknown parameter "hasOwnProperty"',
+  );
+});
+
+Deno.test("Reusing a named parameter with an equal date or array is allowed", () => {
+  const since = (time: number) => param("since", new Date(time));
+  const ids = () => param("ids", [1, 2]);
+  const query = sql`SELECT * FROM orders WHERE created_at > ${since(0)} AND id = ANY(${ids()})`
+    .sql`AND updated_at > ${since(0)} AND parent_id = ANY(${ids()})`;
+  assertEquals(query.parameters, [new Date(0), [1, 2]]);
+  assertThrows(
+    () => query.sql`AND paid_at > ${since(1)}`,
+    SQLQueryError,
+    'Parameter "since" is already bound to a different value',
+  );
+});
+
+// Identifier Tests
+Deno.test("Identifiers are quoted instead of parameterized", () => {
+  const sortColumn = "created_at";
+  const query = sql`SELECT * FROM users`.sql`ORDER BY ${ident(sortColumn)} DESC`;
+  assertEquals(
+    query.toString(),
+    'SELECT\n  *\nFROM users\nORDER BY "created_at" DESC',
+  );
+  assertEquals(query.parameters, []);
+});
+
+Deno.test("Identifiers are quoted per dialect and schema-qualified", () => {
+  const table = sql.identifier("public.users");
+  assertEquals(
+    sql`SELECT * FROM ${table}`.toString(),
+    'SELECT\n  *\nFROM "public"."users"',
+  );
+  assertEquals(
+    createSql({ dialect: "mysql" })`SELECT * FROM ${table}`.toString(),
+    "SELECT\n  *\nFROM `public`.`users`",
+  );
+  assertEquals(
+    createSql({ dialect: "mssql" })`SELECT * FROM ${table}`.toString(),
+    "SELECT\n  *\nFROM [public].[users]",
+  );
+  assertEquals(ident(["odd.schema", "users"]).quote(), '"odd.schema"."users"');
+});
+
+Deno.test("Identifiers are quoted in the dialect the query is rendered in", () => {
+  const query = sql`SELECT * FROM ${ident("public.users")}`
+    .sql`ORDER BY ${ident('we"ird')}`;
+  assertEquals(
+    query.toDialect("mysql").text,
+    "SELECT\n  *\nFROM `public`.`users`\nORDER BY `we\"ird`",
+  );
+  assertEquals(
+    query.withOptions({ dialect: "mssql" }).toString(),
+    'SELECT\n  *\nFROM [public].[users]\nORDER BY [we"ird]',
+  );
+  assertEquals(
+    sql`SELECT * FROM (${query}) AS u`.toDialect("mysql").text,
+    "SELECT\n  *\nFROM (SELECT * FROM `public`.`users` ORDER BY `we\"ird`) AS u",
+  );
+  assertEquals(
+    sql`SELECT * FROM t LIMIT ${ident("n")}`.validate()[0].fragment,
+    '"n"',
+  );
+});
+
+Deno.test("Quotes inside identifiers are escaped", () => {
+  assertEquals(ident('we"ird').quote(), '"we""ird"');
+  assertEquals(ident("we`ird").quote("mysql"), "`we``ird`");
+  assertEquals(ident("we]ird").quote("mssql"), "[we]]ird]");
+});
+
+Deno.test("Identifiers can be checked against an allow-list", () => {
+  const allow = ["name", "created_at"];
+  assertEquals(ident("name", { allow }).quote(), '"name"');
+  assertThrows(
+    () => ident("name; DROP TABLE users", { allow }),
+    SQLQueryError,
+    "not allowed",
+  );
+  assertThrows(() => ident(""), SQLQueryError);
+});
+
+// Raw SQL Tests
+Deno.test("Raw fragments are inserted verbatim", () => {
+  const direction = raw("DESC");
+  const query = sql`SELECT * FROM users`.sql`ORDER BY ${ident("name")} ${direction}`;
+  assertEquals(query.toString(), 'SELECT\n  *\nFROM users\nORDER BY "name" DESC');
+  assertEquals(query.parameters, []);
+  assertEquals(
+    sql`SELECT ${sql.raw("COUNT(*)")} FROM users`.toString(),
+    "SELECT\n  COUNT(*)\nFROM users",
+  );
+});
+
+Deno.test("Strict mode rejects suspicious raw fragments", () => {
+  const strict = createSql({ strictRaw: true });
+  assertEquals(
+    strict`SELECT * FROM users ORDER BY name ${raw("DESC")}`.toString(),
+    "SELECT\n  *\nFROM users\nORDER BY name DESC",
+  );
+  assertThrows(
+    () => strict`SELECT * FROM users WHERE name = ${raw("'x'; DROP TABLE users")}`,
+    SQLQueryError,
+    "Raw SQL",
+  );
+  assertThrows(
+    () => strict`SELECT * FROM users`.sql`WHERE ${raw("1 = 1 -- ")}`,
+    SQLQueryError,
+  );
+  assertEquals(
+    strict`SELECT * FROM users WHERE ${raw("status = 'active'", { allowUnsafe: true })}`.toString(),
+    "SELECT\n  *\nFROM users\nWHERE status = 'active'",
+  );
+});
+
+Deno.test("Raw fragments with quotes are allowed outside strict mode", () => {
+  const query = sql`SELECT * FROM users WHERE ${raw("status = 'active'")}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE status = 'active'");
+});
+
+// Tokenizer Tests
+Deno.test("Clauses on a single line are split by keyword", () => {
+  const query = sql`SELECT id, name FROM users u LEFT JOIN teams t ON t.id = u.team_id WHERE u.active = ${true} AND t.size > ${5} GROUP BY id, name HAVING COUNT(*) > ${1} ORDER BY name DESC LIMIT ${10} OFFSET ${20}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  id,",
+      "  name",
+      "FROM users u",
+      "LEFT JOIN teams t ON t.id = u.team_id",
+      "WHERE u.active = $1",
+      "  AND t.size > $2",
+      "GROUP BY id, name",
+      "HAVING COUNT(*) > $3",
+      "ORDER BY name DESC",
+      "LIMIT $4",
+      "OFFSET $5",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [true, 5, 1, 10, 20]);
+});
+
+Deno.test("Keywords inside literals, identifiers and comments are not clauses", () => {
+  const query = sql`
+  SELECT 'a FROM b' AS "where", $body$ ORDER BY x $body$ AS body
+  FROM notes -- WHERE hidden
+  /* LIMIT 5 /* nested */ OFFSET 1 */
+  WHERE text = E'it\\'s WHERE'`;
+  assertEquals(query.toString(), [
+    "SELECT",
+    `  'a FROM b' AS "where",`,
+    "  $body$ ORDER BY x $body$ AS body",
+    "FROM notes -- WHERE hidden\n  /* LIMIT 5 /* nested */ OFFSET 1 */",
+    "WHERE text = E'it\\'s WHERE'",
+  ].join("\n"));
+});
+
+Deno.test("MySQL string literals have backslash escapes", () => {
+  const mysql = createSql({ dialect: "mysql" });
+  const query = mysql`SELECT * FROM t WHERE a = 'it\\'s from here' ORDER BY id`
+    .sql`AND b = ${1}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM t\nWHERE a = 'it\\'s from here'\n  AND b = ?\nORDER BY id",
+  );
+  assertEquals(query.validate(), []);
+  // Elsewhere a backslash is just a character
+  assertEquals(
+    sql`SELECT * FROM t WHERE path = 'C:\\' ORDER BY id`.parts.orderBy,
+    ["id"],
+  );
+});
+
+Deno.test("Keywords inside subqueries and expressions are not clauses", () => {
+  const query = sql`SELECT COALESCE(a, b), CASE WHEN x > 1 THEN 'y' ELSE 'z' END AS c, (SELECT MAX(id) FROM t WHERE t.u = u.id) FROM u WHERE u.id IN (SELECT id FROM v ORDER BY id LIMIT 3) AND u.n IS DISTINCT FROM 1`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  COALESCE(a, b),",
+      "  CASE WHEN x > 1 THEN 'y' ELSE 'z' END AS c,",
+      "  (SELECT MAX(id) FROM t WHERE t.u = u.id)",
+      "FROM u",
+      "WHERE u.id IN (SELECT id FROM v ORDER BY id LIMIT 3)",
+      "  AND u.n IS DISTINCT FROM 1",
+    ].join("\n"),
+  );
+});
+
+Deno.test("BETWEEN keeps its AND inside the condition", () => {
+  const query = sql`SELECT * FROM events WHERE at BETWEEN ${1} AND ${2} OR urgent`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM events\nWHERE at BETWEEN $1 AND $2\n  OR urgent",
+  );
+});
+
+Deno.test("Several clauses can be added in one sql call", () => {
+  const query = sql`SELECT * FROM users`
+    .sql`WHERE active = ${true} ORDER BY id LIMIT ${10} OFFSET ${20}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE active = $1\nORDER BY id\nLIMIT $2\nOFFSET $3",
+  );
+  assertEquals(query.parameters, [true, 10, 20]);
+});
+
+Deno.test("A second WHERE is joined to the first with AND", () => {
+  const query = sql`SELECT * FROM users WHERE active = ${true}`
+    .sql`WHERE role = ${"admin"}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM users\nWHERE active = $1\n  AND role = $2",
+  );
+});
+
+// Join type Tests
+Deno.test("Every join type is parsed into the joins", () => {
+  const query = sql`SELECT * FROM a FULL OUTER JOIN b ON b.id = a.id LEFT OUTER JOIN c USING (id) RIGHT OUTER JOIN d ON d.id = a.id CROSS JOIN e NATURAL JOIN f NATURAL LEFT OUTER JOIN g INNER JOIN h ON h.id = a.id WHERE a.x = ${1}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM a",
+      "FULL OUTER JOIN b ON b.id = a.id",
+      "LEFT OUTER JOIN c USING (id)",
+      "RIGHT OUTER JOIN d ON d.id = a.id",
+      "CROSS JOIN e",
+      "NATURAL JOIN f",
+      "NATURAL LEFT OUTER JOIN g",
+      "INNER JOIN h ON h.id = a.id",
+      "WHERE a.x = $1",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Adding joins with sql method", () => {
+  let query = sql`SELECT * FROM users u`;
+  query = query.sql`FULL JOIN teams t ON t.id = u.team_id`;
+  query = query.sql`CROSS JOIN regions`;
+  query = query.sql`WHERE u.active = ${true}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM users u",
+      "FULL JOIN teams t ON t.id = u.team_id",
+      "CROSS JOIN regions",
+      "WHERE u.active = $1",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Multi-line ON conditions stay with their join", () => {
+  const query = sql`
+  SELECT *
+  FROM users u
+  LEFT JOIN orders o
+      ON o.user_id = u.id
+      AND o.total > ${100}
+  WHERE u.active = ${true}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM users u",
+      "LEFT JOIN orders o",
+      "  ON o.user_id = u.id",
+      "  AND o.total > $1",
+      "WHERE u.active = $2",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Lateral subqueries keep their own parameters", () => {
+  const recent = sql`SELECT * FROM orders o WHERE o.user_id = u.id AND o.total > ${100} LIMIT ${3}`;
+  const query = sql`SELECT * FROM users u WHERE u.active = ${true}`
+    .sql`JOIN LATERAL (${recent}) AS r ON true`
+    .sql`CROSS JOIN LATERAL (SELECT COUNT(*) FROM visits v WHERE v.user_id = u.id AND v.at > ${"2024-01-01"}) AS c`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM users u",
+      "JOIN LATERAL (SELECT * FROM orders o WHERE o.user_id = u.id AND o.total > $2 LIMIT $3) AS r ON true",
+      "CROSS JOIN LATERAL (SELECT COUNT(*) FROM visits v WHERE v.user_id = u.id AND v.at > $4) AS c",
+      "WHERE u.active = $1",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [true, 100, 3, "2024-01-01"]);
+});
+
+// Join de-duplication Tests
+Deno.test("Identical joins added by different helpers are kept once", () => {
+  const byOwner = (query: SQLQuery, name: string) =>
+    query.sql`LEFT JOIN users owner ON owner.id = p.owner_id AND owner.tenant_id = ${7}`
+      .sql`AND owner.name = ${name}`;
+  const query = byOwner(byOwner(sql`SELECT p.* FROM projects p`, "Ann"), "Bob");
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  p.*",
+      "FROM projects p",
+      "LEFT JOIN users owner ON owner.id = p.owner_id AND owner.tenant_id = $1",
+      "WHERE owner.name = $2",
+      "  AND owner.name = $3",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [7, "Ann", "Bob"]);
+});
+
+Deno.test("A different join with the same alias throws", () => {
+  const query = sql`SELECT * FROM projects p JOIN users u ON u.id = p.owner_id`;
+  assertThrows(
+    () => query.sql`JOIN teams u ON u.id = p.team_id`,
+    SQLQueryError,
+    '"u"',
+  );
+  assertThrows(
+    () => query.sql`LEFT JOIN users u ON u.id = p.owner_id AND u.active = ${true}`,
+    SQLQueryError,
+  );
+});
+
+Deno.test("hasJoin finds joins by alias or table name", () => {
+  const query = sql`
+  SELECT *
+  FROM projects p
+  LEFT JOIN users AS Owner ON Owner.id = p.owner_id
+  JOIN public.teams USING (team_id)
+  CROSS JOIN LATERAL (SELECT 1) stats`;
+  assertEquals(query.hasJoin("owner"), true);
+  assertEquals(query.hasJoin("teams"), true);
+  assertEquals(query.hasJoin("stats"), true);
+  assertEquals(query.hasJoin("users"), false);
+  assertEquals(query.hasJoin("p"), false);
+  assertEquals(query.parts.joins[0], {
+    type: "LEFT JOIN",
+    table: "users",
+    alias: "Owner",
+    condition: "ON Owner.id = p.owner_id",
+    text: "LEFT JOIN users AS Owner ON Owner.id = p.owner_id",
+  });
+});
+
+Deno.test("ensureJoin adds a join only once", () => {
+  const withOwner = (query: SQLQuery) =>
+    query.ensureJoin`LEFT JOIN users owner ON owner.id = p.owner_id AND owner.tenant_id = ${7}`;
+  const query = withOwner(withOwner(sql`SELECT * FROM projects p`))
+    .sql`WHERE owner.active = ${true}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM projects p",
+      "LEFT JOIN users owner ON owner.id = p.owner_id AND owner.tenant_id = $1",
+      "WHERE owner.active = $2",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [7, true]);
+  assertThrows(
+    () => query.ensureJoin`WHERE x = 1`,
+    SQLQueryError,
+    "single JOIN clause",
+  );
+});
+
+Deno.test("Joins aliased with ident() are found by their name", () => {
+  const withOwner = (query: SQLQuery) =>
+    query.ensureJoin`LEFT JOIN users ${ident("ow")} ON ${ident("ow")}.id = p.owner_id`;
+  const query = withOwner(withOwner(sql`SELECT * FROM projects p`));
+  assertEquals(query.hasJoin("ow"), true);
+  assertEquals(query.hasJoin('"ow"'), true);
+  assertEquals(
+    query.toString(),
+    'SELECT\n  *\nFROM projects p\nLEFT JOIN users "ow" ON "ow".id = p.owner_id',
+  );
+});
+
+Deno.test("Joins binding equal dates are the same join", () => {
+  const withOrders = (query: SQLQuery, since: Date) =>
+    query.sql`LEFT JOIN orders o ON o.user_id = u.id AND o.at > ${since}`;
+  const query = withOrders(
+    withOrders(sql`SELECT * FROM users u`, new Date(0)),
+    new Date(0),
+  );
+  assertEquals(query.parts.joins.length, 1);
+  assertEquals(query.parameters, [new Date(0)]);
+  assertThrows(
+    () => withOrders(query, new Date(1)),
+    SQLQueryError,
+    "different join",
+  );
+});
+
+// Clause removal and replacement Tests
+Deno.test("Removing ORDER BY, LIMIT and OFFSET prunes their parameters", () => {
+  const query = sql`SELECT * FROM users WHERE active = ${true}`
+    .sql`ORDER BY ${ident("name")}`
+    .sql`LIMIT ${10}`
+    .sql`OFFSET ${20}`
+    .sql`AND role = ${"admin"}`;
+
+  const unlimited = query.withoutLimit();
+  assertEquals(
+    unlimited.toString(),
+    'SELECT\n  *\nFROM users\nWHERE active = $1\n  AND role = $3\nORDER BY "name"\nOFFSET $2',
+  );
+  assertEquals(unlimited.parameters, [true, 20, "admin"]);
+
+  const all = query.withoutOrderBy().withoutLimit().withoutOffset();
+  assertEquals(
+    all.toString(),
+    "SELECT\n  *\nFROM users\nWHERE active = $1\n  AND role = $2",
+  );
+  assertEquals(all.parameters, [true, "admin"]);
+
+  // The original query is unchanged
+  assertEquals(query.parameters, [true, 10, 20, "admin"]);
+});
+
+Deno.test("clearWhere removes the conditions and their parameters", () => {
+  const query = sql`SELECT * FROM users WHERE id = ${param("id", 1)} AND active = ${true} LIMIT ${5}`;
+  const cleared = query.clearWhere();
+  assertEquals(cleared.toString(), "SELECT\n  *\nFROM users\nLIMIT $1");
+  assertEquals(cleared.parameters, [5]);
+  assertEquals(cleared.parametersByName, {});
+
+  const refiltered = cleared.sql`WHERE id = ${param("id", 2)}`;
+  assertEquals(refiltered.parameters, [5, 2]);
+});
+
+Deno.test("clearWhere drops the diagnostics of the conditions", () => {
+  const query = sql`SELECT * FROM t`.sql`OR a = 1`.sql`GROUP BY a HAVING OR b = 2`;
+  assertEquals(
+    query.validate().map(({ clause }) => clause),
+    ["WHERE", "HAVING"],
+  );
+  assertEquals(
+    query.clearWhere().validate().map(({ clause }) => clause),
+    ["HAVING"],
+  );
+  assertEquals(sql`SELECT * FROM t`.sql`OR a = 1`.clearWhere().validate(), []);
+});
+
+Deno.test("replaceSelect and replaceFrom swap their clauses", () => {
+  const query = sql`SELECT id, name FROM users WHERE active = ${true}`;
+  const counted = query.replaceSelect`COUNT(*) AS total, MAX(age) > ${18} AS adult`;
+  assertEquals(
+    counted.toString(),
+    "SELECT\n  COUNT(*) AS total,\n  MAX(age) > $2 AS adult\nFROM users\nWHERE active = $1",
+  );
+  assertEquals(counted.parameters, [true, 18]);
+
+  const recent = sql`SELECT * FROM users WHERE created_at > ${"2024-01-01"}`;
+  const moved = query.replaceFrom`(${recent}) AS u`;
+  assertEquals(
+    moved.toString(),
+    "SELECT\n  id,\n  name\nFROM (SELECT * FROM users WHERE created_at > $2) AS u\nWHERE active = $1",
+  );
+  assertEquals(moved.parameters, [true, "2024-01-01"]);
+  assertEquals(moved.replaceFrom`users`.parameters, [true]);
+});
+
+// Count query Tests
+Deno.test("toCountQuery replaces the select list and drops pagination", () => {
+  const query = sql`
+  SELECT u.id, u.name, ${"x"} AS tag
+  FROM users u
+  JOIN teams t ON t.id = u.team_id AND t.region = ${"eu"}
+  WHERE u.active = ${true}
+  ORDER BY u.name
+  LIMIT ${20}
+  OFFSET ${40}`;
+  const count = query.toCountQuery();
+  assertEquals(
+    count.toString(),
+    [
+      "SELECT",
+      "  COUNT(*)",
+      "FROM users u",
+      "JOIN teams t ON t.id = u.team_id AND t.region = $1",
+      "WHERE u.active = $2",
+    ].join("\n"),
+  );
+  assertEquals(count.parameters, ["eu", true]);
+});
+
+Deno.test("toCountQuery counts grouped, distinct and compound queries as a subquery", () => {
+  const grouped = sql`SELECT team_id, COUNT(*) FROM users WHERE active = ${true} GROUP BY team_id HAVING COUNT(*) > ${2} ORDER BY team_id LIMIT ${10}`;
+  const count = grouped.toCountQuery();
+  assertEquals(
+    count.toString(),
+    "SELECT\n  COUNT(*)\nFROM (SELECT team_id, COUNT(*) FROM users WHERE active = $1 GROUP BY team_id HAVING COUNT(*) > $2) AS count_query",
+  );
+  assertEquals(count.parameters, [true, 2]);
+
+  const distinct = sql`SELECT DISTINCT email FROM users WHERE id > ${param("min", 5)}`;
+  assertEquals(
+    distinct.toCountQuery().toString(),
+    "SELECT\n  COUNT(*)\nFROM (SELECT DISTINCT email FROM users WHERE id > $1) AS count_query",
+  );
+  assertEquals(distinct.toCountQuery().parametersByName, { min: 5 });
+
+  const union = sql`SELECT id FROM users WHERE a = ${1}`
+    .union(sql`SELECT id FROM admins WHERE b = ${2}`)
+    .sql`LIMIT ${3}`;
+  assertEquals(
+    union.toCountQuery().toString(),
+    "SELECT\n  COUNT(*)\nFROM (SELECT id FROM users WHERE a = $1 UNION SELECT id FROM admins WHERE b = $2) AS count_query",
+  );
+  assertEquals(union.toCountQuery().parameters, [1, 2]);
+});
+
+Deno.test("toCountQuery keeps the dialect and rejects other statements", () => {
+  const mysql = createSql({ dialect: "mysql" });
+  const count = mysql`SELECT * FROM users WHERE id IN (${[1, 2]}) LIMIT ${5}`
+    .toCountQuery();
+  assertEquals(count.toString(), "SELECT\n  COUNT(*)\nFROM users\nWHERE id IN (?, ?)");
+  assertThrows(
+    () => sql`DELETE FROM users WHERE id = ${1}`.toCountQuery(),
+    SQLQueryError,
+  );
+});
+
+// Keyset pagination Tests
+Deno.test("paginateAfter uses a row comparison for keys sorted the same way", () => {
+  const query = sql`SELECT * FROM posts WHERE published = ${true}`
+    .sql`ORDER BY created_at DESC, id DESC`
+    .sql`OFFSET ${100}`;
+
+  const first = query.paginateAfter(null, { limit: 20 });
+  assertEquals(
+    first.toString(),
+    "SELECT\n  *\nFROM posts\nWHERE published = $1\nORDER BY created_at DESC, id DESC\nLIMIT $2",
+  );
+  assertEquals(first.parameters, [true, 20]);
+
+  const next = query.paginateAfter(["2024-05-01", 42], { limit: 20 });
+  assertEquals(
+    next.toString(),
+    "SELECT\n  *\nFROM posts\nWHERE published = $1\n  AND (created_at, id) < ($3, $4)\nORDER BY created_at DESC, id DESC\nLIMIT $2",
+  );
+  assertEquals(next.parameters, [true, 20, "2024-05-01", 42]);
+});
+
+Deno.test("paginateAfter expands mixed directions and NULLS placement", () => {
+  const query = sql`SELECT * FROM tasks`;
+  const next = query.paginateAfter([3, "2024-05-01", 7], {
+    orderBy: ["priority DESC", "due_at ASC NULLS LAST", "id"],
+    limit: 10,
+  });
+  assertEquals(
+    next.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM tasks",
+      "WHERE (priority < $2 OR (priority = $2 AND (due_at > $3 OR due_at IS NULL)) OR (priority = $2 AND due_at = $3 AND id > $4))",
+      "ORDER BY priority DESC, due_at ASC NULLS LAST, id",
+      "LIMIT $1",
+    ].join("\n"),
+  );
+  assertEquals(next.parameters, [10, 3, "2024-05-01", 7]);
+
+  // A NULL in the cursor is past every value when NULLs sort last
+  const afterNull = query.paginateAfter([3, null, 7], {
+    orderBy: ["priority DESC", "due_at ASC NULLS LAST", "id"],
+  });
+  assertEquals(
+    afterNull.toString(),
+    "SELECT\n  *\nFROM tasks\nWHERE (priority < $1 OR (priority = $1 AND due_at IS NULL AND id > $2))\nORDER BY priority DESC, due_at ASC NULLS LAST, id",
+  );
+  assertEquals(afterNull.parameters, [3, 7]);
+});
+
+Deno.test("paginateAfter uses the dialect's NULL ordering", () => {
+  const mysql = createSql({ dialect: "mysql" });
+  const next = mysql`SELECT * FROM tasks ORDER BY due_at, id`
+    .paginateAfter([null, 7]);
+  assertEquals(
+    next.toString(),
+    "SELECT\n  *\nFROM tasks\nWHERE (due_at IS NOT NULL OR (due_at IS NULL AND id > ?))\nORDER BY due_at, id",
+  );
+  assertEquals(next.parameters, [7]);
+});
+
+Deno.test("paginateAfter groups existing OR conditions", () => {
+  const query = sql`SELECT * FROM posts WHERE author_id = ${1} OR editor_id = ${2}`
+    .sql`ORDER BY id`;
+  const next = query.paginateAfter([42], { limit: 20 });
+  assertEquals(
+    next.toString(),
+    "SELECT\n  *\nFROM posts\nWHERE (author_id = $1 OR editor_id = $2)\n  AND id > $4\nORDER BY id\nLIMIT $3",
+  );
+  assertEquals(next.parameters, [1, 2, 20, 42]);
+});
+
+Deno.test("Cursors are encoded from result rows and decoded again", () => {
+  const query = sql`SELECT p.id, p.created_at FROM posts p ORDER BY p.created_at DESC, p."id" DESC`;
+  const cursor = query.cursorFor({ id: 42, created_at: "2024-05-01", title: "é" });
+  assertEquals(decodeCursor(cursor), ["2024-05-01", 42]);
+  assertEquals(encodeCursor(["2024-05-01", 42]), cursor);
+  assertEquals(
+    query.paginateAfter(cursor).toString(),
+    query.paginateAfter(["2024-05-01", 42]).toString(),
+  );
+  assertEquals(decodeCursor(encodeCursor(["ünïcødé", null])), ["ünïcødé", null]);
+
+  assertThrows(() => decodeCursor("not a cursor"), SQLQueryError);
+  assertThrows(() => query.cursorFor({ id: 42 }), SQLQueryError, "created_at");
+  assertThrows(() => query.paginateAfter([42]), SQLQueryError);
+  assertThrows(() => sql`SELECT * FROM posts`.paginateAfter([1]), SQLQueryError);
+});
+
+// Condition group Tests
+Deno.test("and, or and not build parenthesized groups", () => {
+  const query = sql`SELECT * FROM products`.sql`WHERE ${sql.and(
+    sql`price >= ${10}`,
+    sql.or(sql`stock > ${0}`, sql`backorder = ${true}`),
+    sql.not(sql`category = ${"toys"} OR discontinued`),
+  )}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM products\nWHERE (price >= $1 AND (stock > $2 OR backorder = $3) AND NOT (category = $4 OR discontinued))",
+  );
+  assertEquals(query.parameters, [10, 0, true, "toys"]);
+});
+
+Deno.test("Empty conditions are skipped", () => {
+  const minPrice: number | undefined = undefined;
+  const onlyInStock = false;
+  const filters = sql.and(
+    minPrice && sql`price >= ${minPrice}`,
+    onlyInStock && sql`stock > ${0}`,
+    null,
+    sql.or(),
+    sql.not(undefined),
+    sql`name LIKE ${"a%"}`,
+  );
+  assertEquals(filters.toString(), "name LIKE $1");
+
+  const base = sql`SELECT * FROM products WHERE active = ${true}`;
+  assertEquals(base.sql`AND ${sql.and(null, undefined)}`.toString(), base.toString());
+  assertEquals(
+    sql`SELECT * FROM products`.sql`WHERE ${sql.or(false)}`.toString(),
+    "SELECT\n  *\nFROM products",
+  );
+});
+
+Deno.test("Groups keep their precedence when added with AND or OR", () => {
+  const query = sql`SELECT * FROM users WHERE tenant_id = ${param("tenant", 1)}`
+    .sql`AND ${sql.or(sql`role = ${"admin"}`, sql`owner_id = ${param("user", 5)}`)}`
+    .sql`OR ${sql.and(sql`public`, sql`tenant_id = ${param("tenant", 1)}`)}`;
+  assertEquals(
+    query.toString(),
+    [
+      "SELECT",
+      "  *",
+      "FROM users",
+      "WHERE tenant_id = $1",
+      "  AND (role = $2 OR owner_id = $3)",
+      "  OR (public AND tenant_id = $1)",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters, [1, "admin", 5]);
+});
+
+Deno.test("An empty query becomes the first statement added to it", () => {
+  const query = sql``.sql`SELECT * FROM users`.sql`WHERE id = ${1}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE id = $1");
+  assertEquals(sql``.toString(), "");
+});
+
+// Optional fragment Tests
+Deno.test("sqlIf adds a fragment only if its condition holds", () => {
+  const status: string = "all";
+  const customerId: number | undefined = 7;
+  const query = sql`SELECT * FROM orders`
+    .sqlIf(status !== "all")`WHERE status = ${status}`
+    .sqlIf(customerId !== undefined)`AND customer_id = ${customerId}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM orders\nWHERE customer_id = $1");
+  assertEquals(query.parameters, [7]);
+});
+
+Deno.test("Fragments with missing optional values are skipped", () => {
+  const query = sql`SELECT * FROM orders`
+    .sql`WHERE status = ${sql.optional(undefined)}`
+    .sql`AND customer_id = ${sql.optional(7)}`
+    .sql`AND region = ${sql.optional(null)}`
+    .sql`AND total > ${sql.optional(0)}`;
+  assertEquals(
+    query.toString(),
+    "SELECT\n  *\nFROM orders\nWHERE customer_id = $1\n  AND total > $2",
+  );
+  assertEquals(query.parameters, [7, 0]);
+
+  const filters = sql.and(
+    sql`status = ${sql.optional(undefined)}`,
+    sql`customer_id = ${sql.optional(7)}`,
+  );
+  assertEquals(filters.toString(), "customer_id = $1");
+});
+
+Deno.test("The undefined policy renders NULL, throws or skips", () => {
+  assertEquals(
+    sql`SELECT * FROM orders`.sql`WHERE status = ${undefined}`.toString(),
+    "SELECT\n  *\nFROM orders\nWHERE status = NULL",
+  );
+
+  const strict = createSql({ undefinedValues: "throw" });
+  assertThrows(
+    () => strict`SELECT * FROM orders WHERE status = ${undefined}`,
+    SQLQueryError,
+    "undefined",
+  );
+  assertEquals(
+    strict`SELECT * FROM orders WHERE status = ${null}`.toString(),
+    "SELECT\n  *\nFROM orders\nWHERE status = null",
+  );
+
+  const lenient = createSql({ undefinedValues: "skip" });
+  const query = lenient`SELECT * FROM orders`
+    .sql`WHERE status = ${undefined}`
+    .sql`AND customer_id = ${7}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM orders\nWHERE customer_id = $1");
+  assertEquals(lenient`region = ${undefined}`.toString(), "");
+
+  // Named parameters can still be bound later
+  assertEquals(
+    strict`SELECT * FROM orders WHERE id = ${param("id", undefined)}`
+      .bind({ id: 1 }).parameters,
+    [1],
+  );
+});
+
+// Value encoder Tests
+Deno.test("Dates, bigints and binary data are bound as values", () => {
+  const date = new Date("2024-05-01T12:00:00Z");
+  const bytes = new Uint8Array([1, 2, 3]);
+  const query = sql`INSERT INTO files (created_at, size, data) VALUES (${date}, ${12345678901234567890n}, ${bytes})`;
+  assertEquals(query.toString(), "INSERT INTO files (created_at, size, data)\nVALUES\n  ($1, $2, $3)");
+  assertEquals(query.parameters, [date, "12345678901234567890", bytes]);
+
+  const sqlite = createSql({ dialect: "sqlite" });
+  assertEquals(
+    sqlite`SELECT * FROM files WHERE created_at > ${date} AND size = ${5n}`.parameters,
+    ["2024-05-01T12:00:00.000Z", 5n],
+  );
+  assertThrows(() => sql`SELECT ${new Date("nope")}`, SQLQueryError, "date");
+});
+
+Deno.test("Booleans are bound as 1 and 0 for SQLite", () => {
+  const query = sql`SELECT * FROM users WHERE active = ${true} OR admin = ${false}`;
+  assertEquals(query.parameters, [true, false]);
+
+  const sqlite = createSql({ dialect: "sqlite" });
+  assertEquals(
+    sqlite`SELECT * FROM users WHERE active = ${true} OR admin = ${false}`.parameters,
+    [1, 0],
+  );
+});
+
+Deno.test("Plain objects are bound as JSON with a dialect cast", () => {
+  const settings = { theme: "dark", tags: ["a", "b"] };
+  const query = sql`UPDATE users SET settings = ${settings} WHERE id = ${1}`;
+  assertEquals(query.toString(), "UPDATE users\nSET\n  settings = $1::jsonb\nWHERE id = $2");
+  assertEquals(query.parameters, ['{"theme":"dark","tags":["a","b"]}', 1]);
+
+  const mysql = createSql({ dialect: "mysql" });
+  assertEquals(
+    mysql`UPDATE users SET settings = ${settings}`.toString(),
+    "UPDATE users\nSET\n  settings = CAST(? AS json)",
+  );
+  const sqlite = createSql({ dialect: "sqlite" });
+  assertEquals(
+    sqlite`UPDATE users SET settings = ${settings}`.toString(),
+    "UPDATE users\nSET\n  settings = ?",
+  );
+  assertEquals(
+    sql`SELECT * FROM users WHERE settings @> ${param("filter", { theme: "dark" })}`
+      .toString(),
+    "SELECT\n  *\nFROM users\nWHERE settings @> $1::jsonb",
+  );
+});
+
+Deno.test("Values are encoded for the dialect the query is rendered in", () => {
+  const date = new Date("2024-05-01T12:00:00Z");
+  const query = sql`SELECT * FROM files WHERE created_at > ${date} AND active = ${true} AND size = ${5n}`;
+  assertEquals(query.parameters, [date, true, "5"]);
+  assertEquals(query.toDialect("sqlite").values, ["2024-05-01T12:00:00.000Z", 1, 5n]);
+  assertEquals(
+    query.withOptions({ dialect: "sqlite" }).parameters,
+    ["2024-05-01T12:00:00.000Z", 1, 5n],
+  );
+});
+
+Deno.test("Casts are written in the dialect the query is rendered in", () => {
+  const query = sql`UPDATE users SET settings = ${{ theme: "dark" }}`
+    .sql`WHERE id = ${1}`;
+  assertEquals(query.toDialect("mysql").text, "UPDATE users\nSET\n  settings = CAST(? AS json)\nWHERE id = ?");
+  assertEquals(
+    query.withOptions({ dialect: "sqlite" }).toString(),
+    "UPDATE users\nSET\n  settings = ?\nWHERE id = ?",
+  );
+  assertEquals(
+    sql`SELECT * FROM (${query.sql`RETURNING *`}) AS u`.toDialect("mysql").text,
+    "SELECT\n  *\nFROM (UPDATE users SET settings = CAST(? AS json) WHERE id = ? RETURNING *) AS u",
+  );
+
+  const filter = sql`SELECT * FROM users WHERE settings @> ${param("filter", undefined)}`;
+  assertEquals(
+    filter.bind({ filter: { theme: "dark" } }).toString(),
+    "SELECT\n  *\nFROM users\nWHERE settings @> $1::jsonb",
+  );
+});
+
+Deno.test("Registered and per-tag encoders handle custom types", () => {
+  class Money {
+    constructor(public cents: number) {}
+  }
+  class Uuid {
+    constructor(public text: string) {}
+  }
+
+  const unregister = SQLQuery.registerEncoder({
+    test: (value) => value instanceof Money,
+    encode: (value: Money) => ({ value: value.cents, cast: "bigint" }),
+  });
+  try {
+    const query = sql`SELECT * FROM orders WHERE total > ${new Money(500)}`;
+    assertEquals(query.toString(), "SELECT\n  *\nFROM orders\nWHERE total > $1::bigint");
+    assertEquals(query.parameters, [500]);
+
+    const mssql = createSql({
+      dialect: "mssql",
+      encoders: [
+        {
+          test: (value) => value instanceof Uuid,
+          encode: (value: Uuid) => ({ value: value.text, cast: "uniqueidentifier" }),
+        },
+      ],
+    });
+    const byId = mssql`SELECT * FROM orders WHERE id = ${new Uuid("0f8f")} AND total > ${new Money(1)}`;
+    assertEquals(
+      byId.toString(),
+      "SELECT\n  *\nFROM orders\nWHERE id = CAST(@p1 AS uniqueidentifier)\n  AND total > CAST(@p2 AS bigint)",
+    );
+    assertEquals(byId.parameters, ["0f8f", 1]);
+  } finally {
+    unregister();
+  }
+  assertEquals(SQLQuery.encoders, []);
+});
+
+// Row type Tests
+Deno.test("The row type is carried through chaining", () => {
+  type User = { id: number; name: string };
+  const query = sql<User>`SELECT id, name FROM users`
+    .sql`WHERE active = ${true}`
+    .sql`ORDER BY name`
+    .withoutOrderBy()
+    .paginateAfter(null, { orderBy: ["id"], limit: 10 });
+
+  const rows: RowOf<typeof query>[] = [{ id: 1, name: "Ada" }];
+  // @ts-expect-error the rows have no email column
+  const wrong: RowOf<typeof query>[] = [{ id: 1, email: "ada@example.com" }];
+  assertEquals(rows.length, wrong.length);
+
+  const ids: SQLQuery<{ id: number }> = query.replaceSelect<{ id: number }>`id`;
+  assertEquals(ids.toString(), "SELECT\n  id\nFROM users\nWHERE active = $1\nORDER BY id\nLIMIT $2");
+});
+
+Deno.test("Queries without a row type return any rows", () => {
+  const query = sql`SELECT * FROM users`;
+  const rows: RowOf<typeof query>[] = [{ anything: true }];
+  const typed: SQLQuery<{ id: number }> = query;
+  assertEquals(rows.length, 1);
+  assertEquals(typed.toString(), "SELECT\n  *\nFROM users");
+});
+
+// SQL file Tests
+Deno.test("parseQueries splits SQL text into named queries", () => {
+  const queries = parseQueries(`
+    -- name: findUser
+    -- Finds a user by id
+    SELECT * FROM users WHERE id = :id AND deleted_at IS NULL;
+
+    -- name: recentOrders
+    SELECT * FROM orders
+    WHERE user_id = \${userId} AND created_at > :since::date
+    ORDER BY created_at DESC
+  `);
+
+  assertEquals(Object.keys(queries), ["findUser", "recentOrders"]);
+  assertEquals(
+    queries.findUser.bind({ id: 42 }).sql`AND active = ${true}`.toString(),
+    "SELECT\n  *\nFROM users\nWHERE id = $1\n  AND deleted_at IS NULL\n  AND active = $2",
+  );
+
+  const orders = queries.recentOrders.bind({
+    userId: 7n,
+    since: "2024-01-01",
+  });
+  assertEquals(
+    orders.toString(),
+    "SELECT\n  *\nFROM orders\nWHERE user_id = $1\n  AND created_at > $2::date\nORDER BY created_at DESC",
+  );
+  assertEquals(orders.parameters, ["7", "2024-01-01"]);
+});
+
+Deno.test("parseQueries leaves casts, slices, strings and comments alone", () => {
+  const { query } = parseQueries(
+    [
+      "-- name: query",
+      "SELECT tags[1:2], ':label' AS label, 'a'::text /* :note */",
+      "FROM posts WHERE id = :id OR parent_id = :id",
+    ].join("\n"),
+    { dialect: "mssql" },
+  );
+
+  assertEquals(
+    query.bind({ id: 1 }).toString(),
+    "SELECT\n  tags[1:2],\n  ':label' AS label,\n  'a'::text /* :note */\nFROM posts\nWHERE id = @id\n  OR parent_id = @id",
+  );
+});
+
+Deno.test("parseQueries requires a single statement per query", () => {
+  assertThrows(
+    () => parseQueries("-- name: reset\nDELETE FROM a;\nDELETE FROM b;"),
+    SQLQueryError,
+    'Query "reset" has more than one statement',
+  );
+  assertEquals(
+    parseQueries("-- name: one\nSELECT ';' FROM a; -- done\n").one.toString(),
+    "SELECT\n  ';'\nFROM a -- done",
+  );
+});
+
+Deno.test("parseQueries requires unique names", () => {
+  assertThrows(
+    () => parseQueries("-- name: a\nSELECT 1;\n-- name: a\nSELECT 2;"),
+    SQLQueryError,
+    'Query "a" is defined more than once',
+  );
+  assertThrows(
+    () => parseQueries("SELECT 1;\n-- name: a\nSELECT 2;"),
+    SQLQueryError,
+    'SQL before the first "-- name:" comment has no name',
+  );
+  assertEquals(
+    Object.keys(parseQueries("SELECT 1;\n-- name: a\nSELECT 2;", {}, "file")),
+    ["file", "a"],
+  );
+});
+
+Deno.test("parseQueries accepts names of object properties", () => {
+  const queries = parseQueries(
+    "-- name: toString\nSELECT 1;\n-- name: constructor\nSELECT 2;",
+  );
+  assertEquals(Object.keys(queries), ["toString", "constructor"]);
+  assertEquals(queries.constructor.toString(), "SELECT\n  2");
+});
+
+// Formatting Tests
+const formatted = sql`SELECT u.id, u.name, count(o.id) as total FROM users u
+  left join orders o
+  on o.user_id = u.id
+  WHERE u.active = ${true} and u.age > ${18}
+  GROUP BY u.id, u.name ORDER BY total desc LIMIT ${10}`;
+
+Deno.test("format lays out queries like toString by default", () => {
+  assertEquals(formatted.format(), formatted.toString());
+  assertEquals(formatted.format({ indent: 2, keywordCase: "preserve" }), formatted.toString());
+});
+
+Deno.test("format changes the case of keywords only", () => {
+  const query = sql`select "Order".id, 'and or' from "Order" where t.order = ${1} and x is not null`;
+  assertEquals(
+    query.format({ keywordCase: "upper" }),
+    "SELECT\n  \"Order\".id,\n  'and or'\nFROM \"Order\"\nWHERE t.order = $1\n  AND x IS NOT NULL",
+  );
+  assertEquals(
+    query.format({ keywordCase: "lower" }),
+    "select\n  \"Order\".id,\n  'and or'\nfrom \"Order\"\nwhere t.order = $1\n  and x is not null",
+  );
+});
+
+Deno.test("format indents lists, conditions and joins", () => {
+  assertEquals(
+    formatted.format({ indent: 4, commaPosition: "leading" }),
+    [
+      "SELECT",
+      "    u.id",
+      "  , u.name",
+      "  , count(o.id) as total",
+      "FROM users u",
+      "left join orders o",
+      "    on o.user_id = u.id",
+      "WHERE u.active = $1",
+      "    AND u.age > $2",
+      "GROUP BY u.id, u.name",
+      "ORDER BY total desc",
+      "LIMIT $3",
+    ].join("\n"),
+  );
+});
+
+Deno.test("format aligns clause keywords", () => {
+  assertEquals(
+    formatted.format({ align: true, keywordCase: "lower" }),
+    [
+      "select u.id,",
+      "       u.name,",
+      "       count(o.id) as total",
+      "  from users u",
+      "  left join orders o",
+      "       on o.user_id = u.id",
+      " where u.active = $1",
+      "   and u.age > $2",
+      " group by u.id, u.name",
+      " order by total desc",
+      " limit $3",
+    ].join("\n"),
+  );
+
+  const update = sql`UPDATE users SET name = ${"Ada"}, age = ${36} WHERE id = ${1} RETURNING id`;
+  assertEquals(
+    update.format({ align: true, commaPosition: "leading" }),
+    [
+      "   UPDATE users",
+      "      SET name = $1",
+      "        , age = $2",
+      "    WHERE id = $3",
+      "RETURNING id",
+    ].join("\n"),
+  );
+});
+
+Deno.test("format aligns the continuation lines of multi-line items", () => {
+  const query = sql`SELECT id, CASE
+  WHEN paid THEN 'paid'
+  ELSE 'open'
+END AS status FROM orders WHERE (total > ${100}
+  OR vip) GROUP BY id, coalesce(
+  region,
+  country) ORDER BY id`;
+  assertEquals(
+    query.format({ align: true }),
+    [
+      "SELECT id,",
+      "       CASE",
+      "         WHEN paid THEN 'paid'",
+      "         ELSE 'open'",
+      "       END AS status",
+      "  FROM orders",
+      " WHERE (total > $1",
+      "       OR vip)",
+      " GROUP BY id, coalesce(",
+      "          region,",
+      "          country)",
+      " ORDER BY id",
+    ].join("\n"),
+  );
+});
+
+Deno.test("format renders queries on one line", () => {
+  const query = sql`SELECT id -- the key
+    FROM users`.union(sql`SELECT id FROM admins`);
+  assertEquals(
+    query.format({ oneLine: true }),
+    "SELECT id /* the key */ FROM users UNION SELECT id FROM admins",
+  );
+  assertEquals(
+    formatted.withOptions({ dialect: "mysql" }).format({ oneLine: true, keywordCase: "upper" }),
+    "SELECT u.id, u.name, count(o.id) AS total FROM users u LEFT JOIN orders o ON o.user_id = u.id WHERE u.active = ? AND u.age > ? GROUP BY u.id, u.name ORDER BY total DESC LIMIT ?",
+  );
+});
+
+// Debug rendering Tests
+Deno.test("toDebugString inlines escaped literals", () => {
+  const query = sql`SELECT * FROM events WHERE name = ${"O'Brien"} AND path = ${"C:\\tmp"}`
+    .sql`AND active = ${true} AND score > ${1.5} AND deleted_at IS ${null}`
+    .sql`AND at > ${new Date("2024-01-02T03:04:05.000Z")} AND id = ${10n}`
+    .sql`AND data @> ${{ tags: ["a"] }} AND hash = ${new Uint8Array([1, 171])}`
+    .sql`AND kind IN (${["a", "b"]})`;
+
+  assertEquals(
+    query.toDebugString(),
+    [
+      "-- Debug rendering with parameters inlined, not for execution",
+      "SELECT",
+      "  *",
+      "FROM events",
+      "WHERE name = 'O''Brien'",
+      "  AND path = 'C:\\tmp'",
+      "  AND active = TRUE",
+      "  AND score > 1.5",
+      "  AND deleted_at IS null",
+      "  AND at > '2024-01-02T03:04:05.000Z'::timestamptz",
+      "  AND id = '10'",
+      `  AND data @> '{"tags":["a"]}'::jsonb`,
+      "  AND hash = '\\x01ab'::bytea",
+      "  AND kind IN ('a', 'b')",
+    ].join("\n"),
+  );
+  assertEquals(query.parameters.length, 10);
+  assertEquals(
+    createSql({ dialect: "sqlite" })`SELECT * FROM events WHERE id = ${10n}`
+      .toDebugString("sqlite", { oneLine: true }),
+    "-- Debug rendering with parameters inlined, not for execution\nSELECT * FROM events WHERE id = 10",
+  );
+});
+
+Deno.test("toDebugString writes literals of the dialect", () => {
+  const query = sql`UPDATE users SET name = ${"a\\'b"}, admin = ${false}, seen = ${new Date("2024-01-02T03:04:05.000Z")}, avatar = ${new Uint8Array([255])}`
+    .sql`WHERE id = ${1}`;
+
+  assertEquals(
+    query.toDebugString("mysql", { oneLine: true }),
+    "-- Debug rendering with parameters inlined, not for execution\nUPDATE users SET name = 'a\\\\''b', admin = FALSE, seen = '2024-01-02 03:04:05.000', avatar = X'ff' WHERE id = 1",
+  );
+  assertEquals(
+    query.toDebugString("mssql", { oneLine: true }),
+    "-- Debug rendering with parameters inlined, not for execution\nUPDATE users SET name = 'a\\''b', admin = 0, seen = '2024-01-02T03:04:05.000Z', avatar = 0xff WHERE id = 1",
+  );
+  assertEquals(
+    query.toDebugString("oracle", { oneLine: true }),
+    "-- Debug rendering with parameters inlined, not for execution\nUPDATE users SET name = 'a\\''b', admin = 0, seen = TIMESTAMP '2024-01-02 03:04:05.000', avatar = HEXTORAW('ff') WHERE id = 1",
+  );
+
+  const bound = createSql({ arrayParameters: "bind" })`SELECT * FROM t WHERE id = ANY(${[1, 2]}) OR tags = ${[]}`;
+  assertEquals(
+    bound.toDebugString(),
+    "-- Debug rendering with parameters inlined, not for execution\nSELECT\n  *\nFROM t\nWHERE id = ANY(ARRAY[1, 2])\n  OR tags = '{}'",
+  );
+});
+
+// Validation Tests
+Deno.test("validate accepts well-formed queries", () => {
+  const query = sql`SELECT * FROM users WHERE (a = ${1} OR b = ${"("})`
+    .sql`ORDER BY id LIMIT ${10} OFFSET ${20}`;
+  assertEquals(query.validate(), []);
+  assertEquals(sql`SELECT * FROM t LIMIT 5, 10 OFFSET 3 ROWS`.validate(), []);
+  assertEquals(
+    sql`SELECT * FROM t LIMIT ${10} + 1 OFFSET (${2} - 1) * ${10}`.validate(),
+    [],
+  );
+  assertEquals(sql`ORDER BY name`.validate(), []);
+});
+
+Deno.test("validate reports LIMIT and OFFSET values that aren't numbers", () => {
+  assertEquals(sql`SELECT * FROM users LIMIT ten OFFSET '1'`.validate(), [
+    {
+      code: "invalid-limit",
+      message: "LIMIT is not a number or a parameter: ten",
+      clause: "LIMIT",
+      fragment: "ten",
+    },
+    {
+      code: "invalid-offset",
+      message: "OFFSET is not a number or a parameter: '1'",
+      clause: "OFFSET",
+      fragment: "'1'",
+    },
+  ]);
+});
+
+Deno.test("validate reports clauses added before their statement", () => {
+  const query = sql`ORDER BY name`.sql`SELECT * FROM users`;
+  assertEquals(query.validate(), [
+    {
+      code: "clause-before-statement",
+      message: "ORDER BY comes before the SELECT statement",
+      clause: "ORDER BY",
+      fragment: "ORDER BY name",
+    },
+  ]);
+});
+
+Deno.test("validate reports unbalanced parentheses", () => {
+  assertEquals(sql`SELECT count(* FROM users WHERE a IN (1, 2)`.validate(), [
+    {
+      code: "unbalanced-parentheses",
+      message: "Unbalanced parentheses in SELECT: count(* FROM users WHERE a IN (1, 2)",
+      clause: "SELECT",
+      fragment: "count(* FROM users WHERE a IN (1, 2)",
+    },
+  ]);
+  assertEquals(sql`SELECT * FROM users WHERE a = 1)`.validate()[0].clause, "WHERE");
+  assertEquals(sql`(a = 1`.validate()[0].code, "unbalanced-parentheses");
+});
+
+Deno.test("validate reports a first condition starting with OR", () => {
+  const query = sql`SELECT * FROM users`.sql`OR name = ${"Ada"}`;
+  assertEquals(query.toString(), "SELECT\n  *\nFROM users\nWHERE name = $1");
+  assertEquals(query.validate(), [
+    {
+      code: "leading-or",
+      message: "The first WHERE condition starts with OR: name = $1",
+      clause: "WHERE",
+      fragment: "OR name = $1",
+    },
+  ]);
+  assertEquals(sql`SELECT * FROM users`.sql`AND active = ${true}`.validate(), []);
+});
+
+Deno.test("validate reports placeholders without a parameter", () => {
+  const query = sql`SELECT * FROM users WHERE id = $2 AND name = ${"Ada"}`;
+  assertEquals(query.validate(), [
+    {
+      code: "missing-parameter",
+      message: "Placeholder $2 has no parameter",
+      fragment: "$2",
+    },
+  ]);
+});
+
+Deno.test("validate reports named parameters that are never bound", () => {
+  const query = sql`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", undefined)}`;
+  assertEquals(query.validate(), [
+    {
+      code: "unbound-parameter",
+      message: 'Parameter "tenantId" is never bound to a value',
+      fragment: "$1",
+    },
+  ]);
+  assertEquals(query.bind({ tenantId: 7 }).validate(), []);
+  assertEquals(
+    createSql({ strict: true })`SELECT * FROM projects WHERE tenant_id = ${param("tenantId", undefined)}`
+      .bind({ tenantId: 7 })
+      .toString(),
+    "SELECT\n  *\nFROM projects\nWHERE tenant_id = $1",
+  );
+});
+
+Deno.test("Strict queries throw when they are built", () => {
+  const strict = createSql({ strict: true });
+  const query = strict`SELECT * FROM users WHERE active = ${true}`;
+
+  assertThrows(
+    () => query.sql`LIMIT all_of_them`,
+    SQLQueryError,
+    "LIMIT is not a number or a parameter: all_of_them",
+  );
+  assertThrows(
+    () => strict`SELECT * FROM users`.sql`OR id = ${1}`,
+    SQLQueryError,
+    "The first WHERE condition starts with OR: id = $1",
+  );
+  assertThrows(
+    () => sql`SELECT * FROM users WHERE (a = 1`.withOptions({ strict: true }),
+    SQLQueryError,
+    "Unbalanced parentheses in WHERE: (a = 1",
+  );
+  assertEquals(query.sql`LIMIT ${10}`.parameters, [true, 10]);
+});
+
+Deno.test("Strict queries are checked by every method that derives a query", () => {
+  const query = createSql({ strict: true })`SELECT * FROM users u WHERE active = ${true}`;
+
+  assertThrows(() => query.replaceSelect`count(*`, SQLQueryError, "Unbalanced parentheses in SELECT");
+  assertThrows(() => query.replaceFrom`(users u`, SQLQueryError, "Unbalanced parentheses in FROM");
+  assertThrows(
+    () => query.ensureJoin`JOIN teams t ON (t.id = u.team_id`,
+    SQLQueryError,
+    "Unbalanced parentheses",
+  );
+  assertThrows(
+    () => query.union(sql`SELECT * FROM admins WHERE (a = 1`),
+    SQLQueryError,
+    "Unbalanced parentheses",
+  );
+});